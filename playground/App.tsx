@@ -4,18 +4,28 @@ import { ErrorBoundary, For, type JSX, type ParentProps } from "solid-js";
 import { Navbar } from "./Navbar";
 import { AdvancedChartTest } from "./pages/AdvancedChartTest";
 import { CompanyProfileTest } from "./pages/CompanyProfileTest";
+import { CryptoCoinsHeatmapTest } from "./pages/CryptoCoinsHeatmapTest";
 import { CryptoMarketTest } from "./pages/CryptoMarketTest";
 import { EconomicCalendarTest } from "./pages/EconomicCalendarTest";
 import { ErrorPage } from "./pages/Error";
+import { ETFHeatmapTest } from "./pages/ETFHeatmapTest";
+import { ForexCrossRatesTest } from "./pages/ForexCrossRatesTest";
+import { ForexHeatmapTest } from "./pages/ForexHeatmapTest";
 import { FundamentalDataTest } from "./pages/FundamentalDataTest";
 import { Home } from "./pages/Home";
+import { MarketDataTest } from "./pages/MarketDataTest";
+import { MarketOverviewTest } from "./pages/MarketOverviewTest";
 import { MiniChartTest } from "./pages/MiniChartTest";
 import { NotFound } from "./pages/NotFound";
 import { ScreenerTest } from "./pages/ScreenerTest";
 import { SingleTickerTest } from "./pages/SingleTickerTest";
+import { StockHeatmapTest } from "./pages/StockHeatmapTest";
+import { StockMarketTest } from "./pages/StockMarketTest";
 import { SymbolInfoTest } from "./pages/SymbolInfoTest";
 import { SymbolOverviewTest } from "./pages/SymbolOverviewTest";
 import { TechnicalAnalysisTest } from "./pages/TechnicalAnalysisTest";
+import { TickerTapeTest } from "./pages/TickerTapeTest";
+import { TickerTest } from "./pages/TickerTest";
 import { TopStoriesTest } from "./pages/TopStoriesTest";
 
 type Page = {
@@ -52,6 +62,14 @@ const PAGES: readonly Page[] = [
     path: "/single-ticker",
     component: SingleTickerTest,
   },
+  {
+    path: "/ticker",
+    component: TickerTest,
+  },
+  {
+    path: "/ticker-tape",
+    component: TickerTapeTest,
+  },
   {
     path: "/fundamental-data",
     component: FundamentalDataTest,
@@ -76,6 +94,38 @@ const PAGES: readonly Page[] = [
     path: "/economic-calendar",
     component: EconomicCalendarTest,
   },
+  {
+    path: "/market-overview",
+    component: MarketOverviewTest,
+  },
+  {
+    path: "/stock-market",
+    component: StockMarketTest,
+  },
+  {
+    path: "/market-data",
+    component: MarketDataTest,
+  },
+  {
+    path: "/stock-heatmap",
+    component: StockHeatmapTest,
+  },
+  {
+    path: "/crypto-coins-heatmap",
+    component: CryptoCoinsHeatmapTest,
+  },
+  {
+    path: "/forex-cross-rates",
+    component: ForexCrossRatesTest,
+  },
+  {
+    path: "/forex-heatmap",
+    component: ForexHeatmapTest,
+  },
+  {
+    path: "/etf-heatmap",
+    component: ETFHeatmapTest,
+  },
   {
     path: "*",
     component: NotFound,
@@ -35,12 +35,38 @@ const NAV_ITEMS: readonly NavItem[] = [
   { path: "/screener", label: "Screener", description: "Multi-market stock and forex screener" },
   { path: "/crypto-market", label: "CryptoMarket", description: "Cryptocurrency market overview" },
   { path: "/single-ticker", label: "SingleTicker", description: "Individual symbol ticker" },
+  { path: "/ticker", label: "Ticker", description: "Multi-symbol ticker" },
+  { path: "/ticker-tape", label: "TickerTape", description: "Scrolling ticker tape" },
   { path: "/top-stories", label: "TopStories", description: "Financial news and market updates" },
   {
     path: "/economic-calendar",
     label: "EconomicCalendar",
     description: "Economic events and announcements",
   },
+  {
+    path: "/market-overview",
+    label: "MarketOverview",
+    description: "Tabbed market sector overview",
+  },
+  {
+    path: "/stock-market",
+    label: "StockMarket",
+    description: "Exchange gainers, losers and most active",
+  },
+  { path: "/market-data", label: "MarketData", description: "Real-time quote tables" },
+  { path: "/stock-heatmap", label: "StockHeatmap", description: "Index performance heatmap" },
+  {
+    path: "/crypto-coins-heatmap",
+    label: "CryptoCoinsHeatmap",
+    description: "Cryptocurrency market heatmap",
+  },
+  {
+    path: "/forex-cross-rates",
+    label: "ForexCrossRates",
+    description: "Currency cross-rates matrix",
+  },
+  { path: "/forex-heatmap", label: "ForexHeatmap", description: "Currency strength heatmap" },
+  { path: "/etf-heatmap", label: "ETFHeatmap", description: "ETF market heatmap" },
 ];
 
 export const Sidebar = () => {
@@ -0,0 +1,170 @@
+import { createSignal, For } from "solid-js";
+
+import {
+  CryptoCoinsHeatmap,
+  type CryptoCoinsHeatmapDataSource,
+} from "../../src/heatmaps/CryptoCoinsHeatmap";
+import type { ColorTheme, HeatmapBlockColor, HeatmapBlockSize } from "../../src/types";
+
+const DATA_SOURCES: { value: CryptoCoinsHeatmapDataSource; label: string }[] = [
+  { value: "Crypto", label: "All Crypto" },
+  { value: "CryptoWithoutBTC", label: "Without Bitcoin" },
+  { value: "CryptoWithoutStable", label: "Without Stablecoins" },
+  { value: "CryptoDeFi", label: "DeFi" },
+];
+
+const BLOCK_SIZES: { value: HeatmapBlockSize; label: string }[] = [
+  { value: "marketCap", label: "Market Cap" },
+  { value: "volume", label: "Volume 24h" },
+];
+
+const BLOCK_COLORS: { value: HeatmapBlockColor; label: string }[] = [
+  { value: "dailyChange", label: "Change 24h" },
+  { value: "hourlyChange", label: "Change 1h" },
+  { value: "fourHourChange", label: "Change 4h" },
+  { value: "weeklyPerformance", label: "Performance 1W" },
+  { value: "monthlyPerformance", label: "Performance 1M" },
+  { value: "ytdPerformance", label: "Performance YTD" },
+  { value: "yearlyPerformance", label: "Performance 1Y" },
+  { value: "volatility", label: "Volatility" },
+];
+
+export const CryptoCoinsHeatmapTest = () => {
+  const [dataSource, setDataSource] = createSignal<CryptoCoinsHeatmapDataSource>("Crypto");
+  const [blockSize, setBlockSize] = createSignal<HeatmapBlockSize>("marketCap");
+  const [blockColor, setBlockColor] = createSignal<HeatmapBlockColor>("dailyChange");
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("dark");
+  const [hasTopBar, setHasTopBar] = createSignal(false);
+  const [isMonoSize, setIsMonoSize] = createSignal(false);
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">CryptoCoinsHeatmap Widget Test</h1>
+          <p class="text-gray-600">
+            Test the CryptoCoinsHeatmap widget with different coin sets and block metrics.
+          </p>
+        </div>
+
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Controls Panel */}
+          <div class="lg:col-span-1 space-y-6">
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Data Source</h3>
+              <div class="space-y-2">
+                <For each={DATA_SOURCES}>
+                  {(item) => (
+                    <button
+                      class={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
+                        dataSource() === item.value
+                          ? "bg-indigo-100 text-indigo-800 border border-indigo-200"
+                          : "bg-white border border-gray-200 text-gray-700 hover:bg-gray-50"
+                      }`}
+                      onClick={() => setDataSource(item.value)}
+                    >
+                      {item.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg space-y-4">
+              <h3 class="text-lg font-semibold text-gray-800">Block Metrics</h3>
+              <div>
+                <label class="block text-sm font-medium text-gray-600 mb-2">Block Size</label>
+                <select
+                  value={blockSize()}
+                  onChange={(e) => setBlockSize(e.currentTarget.value as HeatmapBlockSize)}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <For each={BLOCK_SIZES}>
+                    {(item) => <option value={item.value}>{item.label}</option>}
+                  </For>
+                </select>
+              </div>
+              <div>
+                <label class="block text-sm font-medium text-gray-600 mb-2">Block Color</label>
+                <select
+                  value={blockColor()}
+                  onChange={(e) => setBlockColor(e.currentTarget.value as HeatmapBlockColor)}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <For each={BLOCK_COLORS}>
+                    {(item) => <option value={item.value}>{item.label}</option>}
+                  </For>
+                </select>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+              <div class="space-y-4">
+                <div class="flex gap-2">
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "light"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("light")}
+                  >
+                    Light
+                  </button>
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "dark"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("dark")}
+                  >
+                    Dark
+                  </button>
+                </div>
+                <div class="space-y-2">
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={hasTopBar()}
+                      onChange={(e) => setHasTopBar(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Top Bar</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={isMonoSize()}
+                      onChange={(e) => setIsMonoSize(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Equal Block Sizes</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Widget Demo */}
+          <div class="lg:col-span-3">
+            <div class="bg-white rounded-lg shadow-lg p-6">
+              <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+              <div class="h-[600px]">
+                <CryptoCoinsHeatmap
+                  dataSource={dataSource()}
+                  blockSize={blockSize()}
+                  blockColor={blockColor()}
+                  colorTheme={colorTheme()}
+                  hasTopBar={hasTopBar()}
+                  isMonoSize={isMonoSize()}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import { createSignal, For } from "solid-js";
+
+import {
+  ETFHeatmap,
+  type ETFHeatmapBlockSize,
+  type ETFHeatmapGrouping,
+} from "../../src/heatmaps/ETFHeatmap";
+import type { ColorTheme, HeatmapBlockColor } from "../../src/types";
+
+const BLOCK_SIZES: { value: ETFHeatmapBlockSize; label: string }[] = [
+  { value: "volume", label: "Volume" },
+  { value: "aum", label: "Assets Under Management" },
+  { value: "valueTraded", label: "Value Traded" },
+];
+
+const BLOCK_COLORS: { value: HeatmapBlockColor; label: string }[] = [
+  { value: "dailyChange", label: "Change 1D" },
+  { value: "hourlyChange", label: "Change 1h" },
+  { value: "weeklyPerformance", label: "Performance 1W" },
+  { value: "monthlyPerformance", label: "Performance 1M" },
+  { value: "ytdPerformance", label: "Performance YTD" },
+  { value: "yearlyPerformance", label: "Performance 1Y" },
+  { value: "volatility", label: "Volatility" },
+];
+
+const GROUPINGS: { value: ETFHeatmapGrouping; label: string }[] = [
+  { value: "asset_class", label: "By Asset Class" },
+  { value: "no_group", label: "No Grouping" },
+];
+
+export const ETFHeatmapTest = () => {
+  const [blockSize, setBlockSize] = createSignal<ETFHeatmapBlockSize>("volume");
+  const [blockColor, setBlockColor] = createSignal<HeatmapBlockColor>("dailyChange");
+  const [grouping, setGrouping] = createSignal<ETFHeatmapGrouping>("asset_class");
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [hasTopBar, setHasTopBar] = createSignal(false);
+  const [isZoomEnabled, setIsZoomEnabled] = createSignal(true);
+  const [hasSymbolTooltip, setHasSymbolTooltip] = createSignal(true);
+  const [isMonoSize, setIsMonoSize] = createSignal(false);
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">ETFHeatmap Widget Test</h1>
+          <p class="text-gray-600">
+            Test the ETFHeatmap widget with different block metrics and grouping options.
+          </p>
+        </div>
+
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Controls Panel */}
+          <div class="lg:col-span-1 space-y-6">
+            <div class="bg-gray-50 p-4 rounded-lg space-y-4">
+              <h3 class="text-lg font-semibold text-gray-800">Heatmap Data</h3>
+
+              <div>
+                <label class="block text-sm font-medium text-gray-600 mb-2">Block Size</label>
+                <select
+                  value={blockSize()}
+                  onChange={(e) => setBlockSize(e.currentTarget.value as ETFHeatmapBlockSize)}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <For each={BLOCK_SIZES}>
+                    {(item) => <option value={item.value}>{item.label}</option>}
+                  </For>
+                </select>
+              </div>
+
+              <div>
+                <label class="block text-sm font-medium text-gray-600 mb-2">Block Color</label>
+                <select
+                  value={blockColor()}
+                  onChange={(e) => setBlockColor(e.currentTarget.value as HeatmapBlockColor)}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <For each={BLOCK_COLORS}>
+                    {(item) => <option value={item.value}>{item.label}</option>}
+                  </For>
+                </select>
+              </div>
+
+              <div>
+                <label class="block text-sm font-medium text-gray-600 mb-2">Grouping</label>
+                <div class="flex gap-2">
+                  <For each={GROUPINGS}>
+                    {(item) => (
+                      <button
+                        class={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                          grouping() === item.value
+                            ? "bg-indigo-600 text-white"
+                            : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                        }`}
+                        onClick={() => setGrouping(item.value)}
+                      >
+                        {item.label}
+                      </button>
+                    )}
+                  </For>
+                </div>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+              <div class="space-y-4">
+                <div class="flex gap-2">
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "light"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("light")}
+                  >
+                    Light
+                  </button>
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "dark"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("dark")}
+                  >
+                    Dark
+                  </button>
+                </div>
+                <div class="space-y-2">
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={hasTopBar()}
+                      onChange={(e) => setHasTopBar(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Top Bar</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={isZoomEnabled()}
+                      onChange={(e) => setIsZoomEnabled(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Enable Zoom</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={hasSymbolTooltip()}
+                      onChange={(e) => setHasSymbolTooltip(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Symbol Tooltips</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={isMonoSize()}
+                      onChange={(e) => setIsMonoSize(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Equal Block Sizes</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Widget Demo */}
+          <div class="lg:col-span-3">
+            <div class="bg-white rounded-lg shadow-lg p-6">
+              <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+              <div class="h-[600px]">
+                <ETFHeatmap
+                  blockSize={blockSize()}
+                  blockColor={blockColor()}
+                  grouping={grouping()}
+                  colorTheme={colorTheme()}
+                  hasTopBar={hasTopBar()}
+                  isZoomEnabled={isZoomEnabled()}
+                  hasSymbolTooltip={hasSymbolTooltip()}
+                  isMonoSize={isMonoSize()}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import { createSignal, For } from "solid-js";
+
+import { ForexHeatmap } from "../../src/heatmaps/ForexHeatmap";
+import type { ColorTheme, Currency, CurrencyList } from "../../src/types";
+
+const AVAILABLE_CURRENCIES: Currency[] = [
+  "EUR",
+  "USD",
+  "JPY",
+  "GBP",
+  "CHF",
+  "AUD",
+  "CAD",
+  "NZD",
+  "CNY",
+  "HKD",
+  "SGD",
+  "SEK",
+  "NOK",
+  "MXN",
+  "INR",
+  "ZAR",
+];
+
+export const ForexHeatmapTest = () => {
+  const [currencies, setCurrencies] = createSignal<CurrencyList>([
+    "EUR",
+    "USD",
+    "JPY",
+    "GBP",
+    "CHF",
+    "AUD",
+    "CAD",
+    "NZD",
+  ]);
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [isTransparent, setIsTransparent] = createSignal(false);
+
+  const toggleCurrency = (currency: Currency) => {
+    const current = currencies();
+    if (!current.includes(currency)) {
+      setCurrencies([...current, currency] as unknown as CurrencyList);
+      return;
+    }
+
+    const next = current.filter((item) => item !== currency);
+    // The heatmap needs at least two currencies to compare
+    if (next.length >= 2) setCurrencies(next as unknown as CurrencyList);
+  };
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">ForexHeatmap Widget Test</h1>
+          <p class="text-gray-600">
+            Test the ForexHeatmap widget with different currency selections and themes.
+          </p>
+        </div>
+
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Controls Panel */}
+          <div class="lg:col-span-1 space-y-6">
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-2">Currencies</h3>
+              <p class="text-xs text-gray-500 mb-4">Select at least two currencies.</p>
+              <div class="grid grid-cols-4 gap-2">
+                <For each={AVAILABLE_CURRENCIES}>
+                  {(currency) => (
+                    <button
+                      class={`px-2 py-1 text-sm rounded-lg transition-colors ${
+                        currencies().includes(currency)
+                          ? "bg-indigo-600 text-white"
+                          : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                      }`}
+                      onClick={() => toggleCurrency(currency)}
+                    >
+                      {currency}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+              <div class="space-y-4">
+                <div class="flex gap-2">
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "light"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("light")}
+                  >
+                    Light
+                  </button>
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "dark"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("dark")}
+                  >
+                    Dark
+                  </button>
+                </div>
+                <label class="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={isTransparent()}
+                    onChange={(e) => setIsTransparent(e.currentTarget.checked)}
+                    class="mr-2"
+                  />
+                  <span class="text-sm text-gray-700">Transparent Background</span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Widget Demo */}
+          <div class="lg:col-span-3">
+            <div class="bg-white rounded-lg shadow-lg p-6">
+              <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+              <div class="h-[500px]">
+                <ForexHeatmap
+                  currencies={currencies()}
+                  colorTheme={colorTheme()}
+                  isTransparent={isTransparent()}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
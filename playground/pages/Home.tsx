@@ -59,6 +59,20 @@ const WIDGET_CARDS: readonly WidgetCard[] = [
     category: "Tickers",
     features: ["Real-time updates", "Compact layout", "Multi-asset support", "Customizable themes"],
   },
+  {
+    title: "Ticker",
+    description: "Horizontal glance of price and change for several instruments at once.",
+    path: "/ticker",
+    category: "Tickers",
+    features: ["Multiple symbols", "Single embed", "Custom titles", "Symbol logos"],
+  },
+  {
+    title: "TickerTape",
+    description: "Wall Street style scrolling ticker tape for a strip of live quotes.",
+    path: "/ticker-tape",
+    category: "Tickers",
+    features: ["Scrolling quotes", "Custom titles", "Adaptive display mode", "Symbol logos"],
+  },
   {
     title: "FundamentalData",
     description: "Company fundamentals and financial metrics display widget.",
@@ -108,10 +122,91 @@ const WIDGET_CARDS: readonly WidgetCard[] = [
     category: "Market Data",
     features: ["80+ countries", "Importance levels", "Regional filters", "Market impact info"],
   },
+  {
+    title: "MarketOverview",
+    description: "Tabbed overview of market sectors with a chart for the selected instrument.",
+    path: "/market-overview",
+    category: "Watchlists",
+    features: [
+      "Tabbed symbol groups",
+      "Date range selection",
+      "Custom plot colors",
+      "Symbol logos",
+    ],
+  },
+  {
+    title: "StockMarket",
+    description: "Hotlists of top gainers, losers and most active stocks for a chosen exchange.",
+    path: "/stock-market",
+    category: "Watchlists",
+    features: ["40 exchanges", "Gainers & losers", "Most active stocks", "Custom plot colors"],
+  },
+  {
+    title: "MarketData",
+    description:
+      "Real-time quote tables grouped by asset class, such as indices, futures, bonds and forex.",
+    path: "/market-data",
+    category: "Watchlists",
+    features: [
+      "Grouped quote tables",
+      "Custom display names",
+      "Multi-asset support",
+      "Symbol logos",
+    ],
+  },
+  {
+    title: "StockHeatmap",
+    description: "Heatmap of index constituents sized and colored by configurable market metrics.",
+    path: "/stock-heatmap",
+    category: "Heatmaps",
+    features: ["12 indices", "Sector grouping", "Custom block metrics", "Zoom & tooltips"],
+  },
+  {
+    title: "CryptoCoinsHeatmap",
+    description:
+      "Heatmap of the cryptocurrency market sized by market cap or volume and colored by performance.",
+    path: "/crypto-coins-heatmap",
+    category: "Heatmaps",
+    features: [
+      "Coin set filters",
+      "Market cap sizing",
+      "24h & period performance",
+      "Zoom & tooltips",
+    ],
+  },
+  {
+    title: "ForexCrossRates",
+    description: "Matrix of exchange rates between selected currencies, colored by daily change.",
+    path: "/forex-cross-rates",
+    category: "Heatmaps",
+    features: ["38 currencies", "Cross-rate matrix", "Daily change coloring", "Transparent mode"],
+  },
+  {
+    title: "ForexHeatmap",
+    description: "Heatmap of relative currency strength across selected currency pairs.",
+    path: "/forex-heatmap",
+    category: "Heatmaps",
+    features: ["38 currencies", "Relative strength", "Daily change coloring", "Transparent mode"],
+  },
+  {
+    title: "ETFHeatmap",
+    description: "Heatmap of US listed ETFs sized by volume or AUM and grouped by asset class.",
+    path: "/etf-heatmap",
+    category: "Heatmaps",
+    features: ["All US ETFs", "Asset class grouping", "AUM & volume sizing", "Zoom & tooltips"],
+  },
 ];
 
 // Define category order with Charts first
-const CATEGORIES = ["Charts", "Symbol", "Screeners", "Tickers", "News", "Market Data"];
+const CATEGORIES = [
+  "Charts",
+  "Symbol",
+  "Screeners",
+  "Tickers",
+  "Watchlists",
+  "News",
+  "Market Data",
+];
 
 export const Home = () => {
   return (
@@ -0,0 +1,164 @@
+import { createSignal, For } from "solid-js";
+
+import type { ColorTheme } from "../../src/types";
+import { MarketData, type MarketDataSymbolsGroup } from "../../src/watchlists/MarketData";
+
+const SYMBOLS_GROUPS: MarketDataSymbolsGroup[] = [
+  {
+    name: "Indices",
+    symbols: [
+      { name: "FOREXCOM:SPXUSD", displayName: "S&P 500" },
+      { name: "FOREXCOM:NSXUSD", displayName: "US 100" },
+      { name: "FOREXCOM:DJI", displayName: "Dow 30" },
+      { name: "INDEX:NKY", displayName: "Nikkei 225" },
+      { name: "INDEX:DEU40", displayName: "DAX Index" },
+    ],
+  },
+  {
+    name: "Futures",
+    symbols: [
+      { name: "CME_MINI:ES1!", displayName: "S&P 500 E-mini" },
+      { name: "CME:6E1!", displayName: "Euro" },
+      { name: "COMEX:GC1!", displayName: "Gold" },
+      { name: "NYMEX:CL1!", displayName: "WTI Crude Oil" },
+    ],
+  },
+  {
+    name: "Bonds",
+    symbols: [
+      { name: "CBOT:ZB1!", displayName: "T-Bond" },
+      { name: "CBOT:UB1!", displayName: "Ultra T-Bond" },
+      { name: "EUREX:FGBL1!", displayName: "Euro Bund" },
+    ],
+  },
+  {
+    name: "Forex",
+    symbols: [
+      { name: "FX:EURUSD", displayName: "EUR to USD" },
+      { name: "FX:GBPUSD", displayName: "GBP to USD" },
+      { name: "FX:USDJPY", displayName: "USD to JPY" },
+      { name: "FX:USDCHF", displayName: "USD to CHF" },
+    ],
+  },
+];
+
+export const MarketDataTest = () => {
+  const [enabledGroups, setEnabledGroups] = createSignal<string[]>(
+    SYMBOLS_GROUPS.map((group) => group.name),
+  );
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [showSymbolLogo, setShowSymbolLogo] = createSignal(true);
+  const [isTransparent, setIsTransparent] = createSignal(false);
+
+  const toggleGroup = (name: string) => {
+    setEnabledGroups((groups) =>
+      groups.includes(name) ? groups.filter((group) => group !== name) : [...groups, name],
+    );
+  };
+
+  const symbolsGroups = () =>
+    SYMBOLS_GROUPS.filter((group) => enabledGroups().includes(group.name));
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">MarketData Widget Test</h1>
+          <p class="text-gray-600">
+            Test the MarketData widget with grouped quote tables for indices, futures, bonds, and
+            forex.
+          </p>
+        </div>
+
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Controls Panel */}
+          <div class="lg:col-span-1 space-y-6">
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Symbol Groups</h3>
+              <div class="space-y-2">
+                <For each={SYMBOLS_GROUPS}>
+                  {(group) => (
+                    <label class="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={enabledGroups().includes(group.name)}
+                        onChange={() => toggleGroup(group.name)}
+                        class="mr-2"
+                      />
+                      <span class="text-sm text-gray-700">
+                        {group.name} ({group.symbols.length})
+                      </span>
+                    </label>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+              <div class="space-y-4">
+                <div class="flex gap-2">
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "light"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("light")}
+                  >
+                    Light
+                  </button>
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "dark"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("dark")}
+                  >
+                    Dark
+                  </button>
+                </div>
+                <div class="space-y-2">
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={showSymbolLogo()}
+                      onChange={(e) => setShowSymbolLogo(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Symbol Logos</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={isTransparent()}
+                      onChange={(e) => setIsTransparent(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Transparent Background</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Widget Demo */}
+          <div class="lg:col-span-3">
+            <div class="bg-white rounded-lg shadow-lg p-6">
+              <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+              <div class="h-[600px]">
+                <MarketData
+                  symbolsGroups={symbolsGroups()}
+                  colorTheme={colorTheme()}
+                  showSymbolLogo={showSymbolLogo()}
+                  isTransparent={isTransparent()}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
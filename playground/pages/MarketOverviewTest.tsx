@@ -0,0 +1,193 @@
+import { createSignal, For } from "solid-js";
+
+import type { ColorTheme, WatchlistDateRange } from "../../src/types";
+import { MarketOverview, type MarketOverviewTab } from "../../src/watchlists/MarketOverview";
+
+const TABS: MarketOverviewTab[] = [
+  {
+    title: "Indices",
+    symbols: [
+      { symbol: "FOREXCOM:SPXUSD", displayName: "S&P 500" },
+      { symbol: "FOREXCOM:NSXUSD", displayName: "US 100" },
+      { symbol: "FOREXCOM:DJI", displayName: "Dow 30" },
+      { symbol: "INDEX:NKY", displayName: "Nikkei 225" },
+      { symbol: "INDEX:DEU40", displayName: "DAX Index" },
+    ],
+  },
+  {
+    title: "Futures",
+    symbols: [
+      { symbol: "CME_MINI:ES1!", displayName: "S&P 500 E-mini" },
+      { symbol: "COMEX:GC1!", displayName: "Gold" },
+      { symbol: "NYMEX:CL1!", displayName: "WTI Crude Oil" },
+    ],
+  },
+  {
+    title: "Forex",
+    symbols: [
+      { symbol: "FX:EURUSD", displayName: "EUR to USD" },
+      { symbol: "FX:GBPUSD", displayName: "GBP to USD" },
+      { symbol: "FX:USDJPY", displayName: "USD to JPY" },
+    ],
+  },
+  {
+    title: "Crypto",
+    symbols: [
+      { symbol: "BITSTAMP:BTCUSD", displayName: "Bitcoin" },
+      { symbol: "BITSTAMP:ETHUSD", displayName: "Ethereum" },
+    ],
+  },
+];
+
+const DATE_RANGES: WatchlistDateRange[] = ["1D", "1M", "3M", "12M", "60M", "ALL"];
+
+const PLOT_COLOR_PRESETS = [
+  { label: "Default", growing: undefined, falling: undefined },
+  { label: "Green / Red", growing: "rgba(0, 200, 81, 1)", falling: "rgba(255, 68, 68, 1)" },
+  { label: "Orange", growing: "rgba(255, 107, 53, 1)", falling: "rgba(255, 107, 53, 1)" },
+] as const;
+
+export const MarketOverviewTest = () => {
+  const [dateRange, setDateRange] = createSignal<WatchlistDateRange>("12M");
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [plotColors, setPlotColors] = createSignal<(typeof PLOT_COLOR_PRESETS)[number]>(
+    PLOT_COLOR_PRESETS[0],
+  );
+  const [showChart, setShowChart] = createSignal(true);
+  const [showSymbolLogo, setShowSymbolLogo] = createSignal(true);
+  const [isTransparent, setIsTransparent] = createSignal(false);
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">MarketOverview Widget Test</h1>
+          <p class="text-gray-600">
+            Test the MarketOverview widget with tabbed symbol groups, date ranges, and plot colors.
+          </p>
+        </div>
+
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Controls Panel */}
+          <div class="lg:col-span-1 space-y-6">
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Date Range</h3>
+              <div class="grid grid-cols-3 gap-2">
+                <For each={DATE_RANGES}>
+                  {(range) => (
+                    <button
+                      class={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                        dateRange() === range
+                          ? "bg-indigo-600 text-white"
+                          : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                      }`}
+                      onClick={() => setDateRange(range)}
+                    >
+                      {range}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Plot Colors</h3>
+              <div class="space-y-2">
+                <For each={PLOT_COLOR_PRESETS}>
+                  {(preset) => (
+                    <button
+                      class={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
+                        plotColors() === preset
+                          ? "bg-indigo-100 text-indigo-800 border border-indigo-200"
+                          : "bg-white border border-gray-200 text-gray-700 hover:bg-gray-50"
+                      }`}
+                      onClick={() => setPlotColors(preset)}
+                    >
+                      {preset.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+              <div class="space-y-4">
+                <div class="flex gap-2">
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "light"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("light")}
+                  >
+                    Light
+                  </button>
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "dark"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("dark")}
+                  >
+                    Dark
+                  </button>
+                </div>
+                <div class="space-y-2">
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={showChart()}
+                      onChange={(e) => setShowChart(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Chart</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={showSymbolLogo()}
+                      onChange={(e) => setShowSymbolLogo(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Symbol Logos</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={isTransparent()}
+                      onChange={(e) => setIsTransparent(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Transparent Background</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Widget Demo */}
+          <div class="lg:col-span-3">
+            <div class="bg-white rounded-lg shadow-lg p-6">
+              <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+              <div class="h-[600px]">
+                <MarketOverview
+                  tabs={TABS}
+                  dateRange={dateRange()}
+                  colorTheme={colorTheme()}
+                  showChart={showChart()}
+                  showSymbolLogo={showSymbolLogo()}
+                  isTransparent={isTransparent()}
+                  lineUpColor={plotColors().growing}
+                  lineDownColor={plotColors().falling}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import { createSignal, For } from "solid-js";
+
+import type { ColorTheme, WatchlistDateRange } from "../../src/types";
+import { StockMarket, type StockMarketExchange } from "../../src/watchlists/StockMarket";
+
+const EXCHANGES: { value: StockMarketExchange; label: string }[] = [
+  { value: "US", label: "United States" },
+  { value: "NASDAQ", label: "NASDAQ" },
+  { value: "NYSE", label: "NYSE" },
+  { value: "TSX", label: "Toronto" },
+  { value: "LSE", label: "London" },
+  { value: "XETR", label: "XETRA" },
+  { value: "EURONEXT", label: "Euronext" },
+  { value: "TSE", label: "Tokyo" },
+  { value: "HKEX", label: "Hong Kong" },
+  { value: "NSE", label: "India (NSE)" },
+  { value: "ASX", label: "Australia" },
+  { value: "JSE", label: "Johannesburg" },
+];
+
+const DATE_RANGES: WatchlistDateRange[] = ["1D", "1M", "3M", "12M", "60M", "ALL"];
+
+export const StockMarketTest = () => {
+  const [exchange, setExchange] = createSignal<StockMarketExchange>("US");
+  const [dateRange, setDateRange] = createSignal<WatchlistDateRange>("12M");
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [showChart, setShowChart] = createSignal(true);
+  const [showSymbolLogo, setShowSymbolLogo] = createSignal(true);
+  const [isTransparent, setIsTransparent] = createSignal(false);
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">StockMarket Widget Test</h1>
+          <p class="text-gray-600">
+            Test the StockMarket hotlists widget with gainers, losers and most active stocks for
+            different exchanges.
+          </p>
+        </div>
+
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Controls Panel */}
+          <div class="lg:col-span-1 space-y-6">
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Exchange</h3>
+              <div class="grid grid-cols-2 gap-2">
+                <For each={EXCHANGES}>
+                  {(item) => (
+                    <button
+                      class={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                        exchange() === item.value
+                          ? "bg-indigo-600 text-white"
+                          : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                      }`}
+                      onClick={() => setExchange(item.value)}
+                    >
+                      {item.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Date Range</h3>
+              <div class="grid grid-cols-3 gap-2">
+                <For each={DATE_RANGES}>
+                  {(range) => (
+                    <button
+                      class={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                        dateRange() === range
+                          ? "bg-indigo-600 text-white"
+                          : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                      }`}
+                      onClick={() => setDateRange(range)}
+                    >
+                      {range}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+
+            <div class="bg-gray-50 p-4 rounded-lg">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+              <div class="space-y-4">
+                <div class="flex gap-2">
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "light"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("light")}
+                  >
+                    Light
+                  </button>
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors ${
+                      colorTheme() === "dark"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setColorTheme("dark")}
+                  >
+                    Dark
+                  </button>
+                </div>
+                <div class="space-y-2">
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={showChart()}
+                      onChange={(e) => setShowChart(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Chart</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={showSymbolLogo()}
+                      onChange={(e) => setShowSymbolLogo(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Show Symbol Logos</span>
+                  </label>
+                  <label class="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={isTransparent()}
+                      onChange={(e) => setIsTransparent(e.currentTarget.checked)}
+                      class="mr-2"
+                    />
+                    <span class="text-sm text-gray-700">Transparent Background</span>
+                  </label>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Widget Demo */}
+          <div class="lg:col-span-3">
+            <div class="bg-white rounded-lg shadow-lg p-6">
+              <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+              <div class="h-[600px]">
+                <StockMarket
+                  exchange={exchange()}
+                  dateRange={dateRange()}
+                  colorTheme={colorTheme()}
+                  showChart={showChart()}
+                  showSymbolLogo={showSymbolLogo()}
+                  isTransparent={isTransparent()}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
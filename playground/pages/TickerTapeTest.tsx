@@ -0,0 +1,169 @@
+import { createSignal, For } from "solid-js";
+
+import { TickerTape, type TickerTapeDisplayMode } from "../../src/tickers/TickerTape";
+import type { ColorTheme, TickerSymbol } from "../../src/types";
+
+const SYMBOL_PRESETS: { label: string; symbols: TickerSymbol[] }[] = [
+  {
+    label: "Global Markets",
+    symbols: [
+      { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+      { symbol: "FOREXCOM:NSXUSD", title: "US 100" },
+      { symbol: "FX_IDC:EURUSD", title: "EUR to USD" },
+      { symbol: "BITSTAMP:BTCUSD", title: "Bitcoin" },
+      { symbol: "BITSTAMP:ETHUSD", title: "Ethereum" },
+    ],
+  },
+  {
+    label: "Big Tech",
+    symbols: [
+      { symbol: "NASDAQ:AAPL" },
+      { symbol: "NASDAQ:MSFT" },
+      { symbol: "NASDAQ:GOOGL" },
+      { symbol: "NASDAQ:AMZN" },
+      { symbol: "NASDAQ:NVDA" },
+      { symbol: "NASDAQ:META" },
+    ],
+  },
+  {
+    label: "Commodities",
+    symbols: [
+      { symbol: "COMEX:GC1!", title: "Gold" },
+      { symbol: "COMEX:SI1!", title: "Silver" },
+      { symbol: "NYMEX:CL1!", title: "Crude Oil" },
+      { symbol: "NYMEX:NG1!", title: "Natural Gas" },
+    ],
+  },
+];
+
+const DISPLAY_MODES: TickerTapeDisplayMode[] = ["adaptive", "regular", "compact"];
+
+export const TickerTapeTest = () => {
+  const [symbols, setSymbols] = createSignal<TickerSymbol[]>(SYMBOL_PRESETS[0]!.symbols);
+  const [displayMode, setDisplayMode] = createSignal<TickerTapeDisplayMode>("adaptive");
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [showSymbolLogo, setShowSymbolLogo] = createSignal(true);
+  const [isTransparent, setIsTransparent] = createSignal(false);
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">TickerTape Widget Test</h1>
+          <p class="text-gray-600">
+            Test the scrolling TickerTape widget with different symbol lists, display modes, and
+            themes.
+          </p>
+        </div>
+
+        {/* Widget Demo */}
+        <div class="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+          <TickerTape
+            symbols={symbols()}
+            displayMode={displayMode()}
+            colorTheme={colorTheme()}
+            showSymbolLogo={showSymbolLogo()}
+            isTransparent={isTransparent()}
+          />
+        </div>
+
+        <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Symbol Presets */}
+          <div class="bg-gray-50 p-4 rounded-lg">
+            <h3 class="text-lg font-semibold text-gray-800 mb-4">Symbol Presets</h3>
+            <div class="space-y-2">
+              <For each={SYMBOL_PRESETS}>
+                {(preset) => (
+                  <button
+                    class={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
+                      symbols() === preset.symbols
+                        ? "bg-indigo-100 text-indigo-800 border border-indigo-200"
+                        : "bg-white border border-gray-200 text-gray-700 hover:bg-gray-50"
+                    }`}
+                    onClick={() => setSymbols(preset.symbols)}
+                  >
+                    <div class="font-medium">{preset.label}</div>
+                    <div class="text-xs text-gray-500 truncate">
+                      {preset.symbols.map((item) => item.symbol).join(", ")}
+                    </div>
+                  </button>
+                )}
+              </For>
+            </div>
+          </div>
+
+          {/* Display Mode */}
+          <div class="bg-gray-50 p-4 rounded-lg">
+            <h3 class="text-lg font-semibold text-gray-800 mb-4">Display Mode</h3>
+            <div class="flex gap-2">
+              <For each={DISPLAY_MODES}>
+                {(mode) => (
+                  <button
+                    class={`px-3 py-2 rounded-lg transition-colors capitalize ${
+                      displayMode() === mode
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setDisplayMode(mode)}
+                  >
+                    {mode}
+                  </button>
+                )}
+              </For>
+            </div>
+          </div>
+
+          {/* Widget Settings */}
+          <div class="bg-gray-50 p-4 rounded-lg">
+            <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+            <div class="space-y-4">
+              <div class="flex gap-2">
+                <button
+                  class={`px-3 py-2 rounded-lg transition-colors ${
+                    colorTheme() === "light"
+                      ? "bg-indigo-600 text-white"
+                      : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                  }`}
+                  onClick={() => setColorTheme("light")}
+                >
+                  Light
+                </button>
+                <button
+                  class={`px-3 py-2 rounded-lg transition-colors ${
+                    colorTheme() === "dark"
+                      ? "bg-indigo-600 text-white"
+                      : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                  }`}
+                  onClick={() => setColorTheme("dark")}
+                >
+                  Dark
+                </button>
+              </div>
+              <div class="space-y-2">
+                <label class="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={showSymbolLogo()}
+                    onChange={(e) => setShowSymbolLogo(e.currentTarget.checked)}
+                    class="mr-2"
+                  />
+                  <span class="text-sm text-gray-700">Show Symbol Logos</span>
+                </label>
+                <label class="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={isTransparent()}
+                    onChange={(e) => setIsTransparent(e.currentTarget.checked)}
+                    class="mr-2"
+                  />
+                  <span class="text-sm text-gray-700">Transparent Background</span>
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { createSignal, For } from "solid-js";
+
+import { Ticker } from "../../src/tickers/Ticker";
+import type { ColorTheme, Size, TickerSymbol } from "../../src/types";
+
+const SYMBOL_PRESETS: { label: string; symbols: TickerSymbol[] }[] = [
+  {
+    label: "Major Indices",
+    symbols: [
+      { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+      { symbol: "FOREXCOM:NSXUSD", title: "US 100" },
+      { symbol: "FOREXCOM:DJI", title: "Dow 30" },
+      { symbol: "INDEX:NKY", title: "Nikkei 225" },
+      { symbol: "INDEX:DEU40", title: "DAX Index" },
+    ],
+  },
+  {
+    label: "Crypto",
+    symbols: [
+      { symbol: "BITSTAMP:BTCUSD", title: "Bitcoin" },
+      { symbol: "BITSTAMP:ETHUSD", title: "Ethereum" },
+      { symbol: "BINANCE:SOLUSDT", title: "Solana" },
+      { symbol: "BINANCE:BNBUSDT", title: "BNB" },
+    ],
+  },
+  {
+    label: "Forex",
+    symbols: [
+      { symbol: "FX_IDC:EURUSD" },
+      { symbol: "FX_IDC:GBPUSD" },
+      { symbol: "FX_IDC:USDJPY" },
+      { symbol: "FX_IDC:AUDUSD" },
+    ],
+  },
+];
+
+const WIDTH_PRESETS = [
+  { value: "full", label: "Full Width" },
+  { value: 600, label: "600px" },
+  { value: 800, label: "800px" },
+  { value: 1000, label: "1000px" },
+] as const;
+
+export const TickerTest = () => {
+  const [symbols, setSymbols] = createSignal<TickerSymbol[]>(SYMBOL_PRESETS[0]!.symbols);
+  const [colorTheme, setColorTheme] = createSignal<ColorTheme>("light");
+  const [width, setWidth] = createSignal<Size>("full");
+  const [showSymbolLogo, setShowSymbolLogo] = createSignal(true);
+  const [isTransparent, setIsTransparent] = createSignal(false);
+
+  return (
+    <div class="p-6 bg-white min-h-screen">
+      <div class="max-w-7xl mx-auto">
+        <div class="mb-8">
+          <h1 class="text-3xl font-bold text-gray-900 mb-2">Ticker Widget Test</h1>
+          <p class="text-gray-600">
+            Test the multi-symbol Ticker widget with different symbol lists, widths, and themes.
+          </p>
+        </div>
+
+        {/* Widget Demo */}
+        <div class="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 class="text-xl font-semibold text-gray-700 mb-4">Live Widget Demo</h2>
+          <Ticker
+            symbols={symbols()}
+            width={width()}
+            colorTheme={colorTheme()}
+            showSymbolLogo={showSymbolLogo()}
+            isTransparent={isTransparent()}
+          />
+        </div>
+
+        <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Symbol Presets */}
+          <div class="bg-gray-50 p-4 rounded-lg">
+            <h3 class="text-lg font-semibold text-gray-800 mb-4">Symbol Presets</h3>
+            <div class="space-y-2">
+              <For each={SYMBOL_PRESETS}>
+                {(preset) => (
+                  <button
+                    class={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
+                      symbols() === preset.symbols
+                        ? "bg-indigo-100 text-indigo-800 border border-indigo-200"
+                        : "bg-white border border-gray-200 text-gray-700 hover:bg-gray-50"
+                    }`}
+                    onClick={() => setSymbols(preset.symbols)}
+                  >
+                    <div class="font-medium">{preset.label}</div>
+                    <div class="text-xs text-gray-500 truncate">
+                      {preset.symbols.map((item) => item.symbol).join(", ")}
+                    </div>
+                  </button>
+                )}
+              </For>
+            </div>
+          </div>
+
+          {/* Width */}
+          <div class="bg-gray-50 p-4 rounded-lg">
+            <h3 class="text-lg font-semibold text-gray-800 mb-4">Width</h3>
+            <div class="grid grid-cols-2 gap-2">
+              <For each={WIDTH_PRESETS}>
+                {(preset) => (
+                  <button
+                    class={`px-3 py-2 text-sm rounded-lg transition-colors ${
+                      width() === preset.value
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                    }`}
+                    onClick={() => setWidth(preset.value)}
+                  >
+                    {preset.label}
+                  </button>
+                )}
+              </For>
+            </div>
+          </div>
+
+          {/* Widget Settings */}
+          <div class="bg-gray-50 p-4 rounded-lg">
+            <h3 class="text-lg font-semibold text-gray-800 mb-4">Widget Settings</h3>
+            <div class="space-y-4">
+              <div class="flex gap-2">
+                <button
+                  class={`px-3 py-2 rounded-lg transition-colors ${
+                    colorTheme() === "light"
+                      ? "bg-indigo-600 text-white"
+                      : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                  }`}
+                  onClick={() => setColorTheme("light")}
+                >
+                  Light
+                </button>
+                <button
+                  class={`px-3 py-2 rounded-lg transition-colors ${
+                    colorTheme() === "dark"
+                      ? "bg-indigo-600 text-white"
+                      : "bg-white border border-gray-300 text-gray-700 hover:bg-indigo-50"
+                  }`}
+                  onClick={() => setColorTheme("dark")}
+                >
+                  Dark
+                </button>
+              </div>
+              <div class="space-y-2">
+                <label class="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={showSymbolLogo()}
+                    onChange={(e) => setShowSymbolLogo(e.currentTarget.checked)}
+                    class="mr-2"
+                  />
+                  <span class="text-sm text-gray-700">Show Symbol Logos</span>
+                </label>
+                <label class="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={isTransparent()}
+                    onChange={(e) => setIsTransparent(e.currentTarget.checked)}
+                    class="mr-2"
+                  />
+                  <span class="text-sm text-gray-700">Transparent Background</span>
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,14 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
+import { type JSX, mergeProps, splitProps } from "solid-js";
 
-import type { ColorTheme, Locale, Size } from "../types";
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Supported countries for economic calendar filtering.
@@ -222,7 +228,7 @@ const CountryMap: Record<Country, string> = {
 /**
  * Props for the EconomicCalendar component.
  */
-export type EconomicCalendarProps = {
+export type EconomicCalendarProps = SizedWidgetProps & {
   /**
    * Widget width in pixels. Ignored if `autosize` is true.
    * @default "full"
@@ -231,9 +237,10 @@ export type EconomicCalendarProps = {
 
   /**
    * Widget height in pixels. Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default "full"
    */
-  readonly height?: Size;
+  readonly height?: Responsive<Size>;
 
   /**
    * Locale for widget interface and date/time formatting.
@@ -247,6 +254,11 @@ export type EconomicCalendarProps = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Array of countries to filter economic events by.
    * When empty, shows events from all countries.
@@ -296,12 +308,6 @@ export type EconomicCalendarProps = {
    * @default false
    */
   readonly isTransparent?: boolean;
-
-  /**
-   * Callback function called when an error occurs during widget initialization.
-   * @param error The error that occurred
-   */
-  readonly onError?: (error: Error) => void;
 };
 
 /**
@@ -354,7 +360,7 @@ export type EconomicCalendarProps = {
  * ```
  */
 export const EconomicCalendar = (props: EconomicCalendarProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -367,56 +373,40 @@ export const EconomicCalendar = (props: EconomicCalendarProps): JSX.Element => {
       showHighImportanceOnly: false,
       isTransparent: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
   );
 
   // Remove duplicates countries
   const countries = () => new Array(...new Set(_props.countries));
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
 
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-events.js",
-          {
-            textContent: JSON.stringify({
-              autosize: _props.autosize,
-              width: fullWidth ? "100%" : _props.width,
-              height: fullHeight ? "100%" : _props.height,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              importanceFilter: _props.showHighImportanceOnly ? "0,1" : "-1,0,1",
-              isTransparent: _props.isTransparent,
-              countryFilter: countries()
-                .map((country) => CountryMap[country])
-                .join(","),
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
-
-  return <div class="tradingview-widget-container" ref={container} />;
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="EconomicCalendar"
+      scriptSrc="embed-widget-events.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => ({
+        autosize: _props.autosize,
+        width: fullWidth() ? "100%" : toConfigSize(_props.width),
+        height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        importanceFilter: _props.showHighImportanceOnly ? "0,1" : "-1,0,1",
+        isTransparent: _props.isTransparent,
+        countryFilter: countries()
+          .map((country) => CountryMap[country])
+          .join(","),
+      })}
+    />
+  );
 };
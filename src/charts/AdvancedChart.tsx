@@ -1,8 +1,15 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
-import type { ColorTheme, Locale } from "../types";
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import type { WidgetError } from "../core/errors";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size, TimeZone } from "../types";
 
 /**
  * Chart time intervals supported by TradingView AdvancedChart.
@@ -26,113 +33,6 @@ export type AdvancedChartInterval =
   | "D"
   | "W";
 
-/**
- * Timezone identifiers for chart data display.
- * Controls what timezone is used for displaying candle open/close times.
- *
- * @example
- * ```tsx
- * <AdvancedChart timezone="America/New_York" /> // Eastern Time
- * <AdvancedChart timezone="exchange" /> // Use exchange timezone
- * ```
- */
-export type TimeZone =
-  | "exchange"
-  | "Etc/UTC"
-  | "Pacific/Honolulu"
-  | "America/Anchorage"
-  | "America/Juneau"
-  | "America/Los_Angeles"
-  | "America/Phoenix"
-  | "America/Vancouver"
-  | "US/Mountain"
-  | "America/Mexico_City"
-  | "America/El_Salvador"
-  | "America/Bogota"
-  | "America/Chicago"
-  | "America/Lima"
-  | "America/Caracas"
-  | "America/New_York"
-  | "America/Santiago"
-  | "America/Toronto"
-  | "America/Argentina/Buenos_Aires"
-  | "America/Sao_Paulo"
-  | "Atlantic/Azores"
-  | "Atlantic/Reykjavik"
-  | "Africa/Casablanca"
-  | "Europe/Dublin"
-  | "Africa/Lagos"
-  | "Europe/Lisbon"
-  | "Europe/London"
-  | "Africa/Tunis"
-  | "Europe/Amsterdam"
-  | "Europe/Belgrade"
-  | "Europe/Berlin"
-  | "Europe/Bratislava"
-  | "Europe/Brussels"
-  | "Europe/Budapest"
-  | "Europe/Copenhagen"
-  | "Africa/Johannesburg"
-  | "Europe/Luxembourg"
-  | "Europe/Madrid"
-  | "Europe/Malta"
-  | "Europe/Oslo"
-  | "Europe/Paris"
-  | "Europe/Prague"
-  | "Europe/Rome"
-  | "Europe/Stockholm"
-  | "Europe/Vienna"
-  | "Europe/Warsaw"
-  | "Europe/Zurich"
-  | "Europe/Athens"
-  | "Asia/Bahrain"
-  | "Europe/Bucharest"
-  | "Africa/Cairo"
-  | "Europe/Helsinki"
-  | "Europe/Istanbul"
-  | "Asia/Jerusalem"
-  | "Asia/Kuwait"
-  | "Europe/Moscow"
-  | "Africa/Nairobi"
-  | "Asia/Nicosia"
-  | "Asia/Qatar"
-  | "Europe/Riga"
-  | "Asia/Riyadh"
-  | "Europe/Tallinn"
-  | "Europe/Vilnius"
-  | "Asia/Tehran"
-  | "Asia/Dubai"
-  | "Asia/Muscat"
-  | "Asia/Kabul"
-  | "Asia/Ashkhabad"
-  | "Asia/Almaty"
-  | "Asia/Karachi"
-  | "Asia/Colombo"
-  | "Asia/Kolkata"
-  | "Asia/Kathmandu"
-  | "Asia/Dhaka"
-  | "Asia/Yangon"
-  | "Asia/Bangkok"
-  | "Asia/Ho_Chi_Minh"
-  | "Asia/Jakarta"
-  | "Asia/Chongqing"
-  | "Asia/Hong_Kong"
-  | "Asia/Kuala_Lumpur"
-  | "Asia/Manila"
-  | "Australia/Perth"
-  | "Asia/Shanghai"
-  | "Asia/Singapore"
-  | "Asia/Taipei"
-  | "Asia/Seoul"
-  | "Asia/Tokyo"
-  | "Australia/Adelaide"
-  | "Australia/Brisbane"
-  | "Australia/Sydney"
-  | "Pacific/Norfolk"
-  | "Pacific/Auckland"
-  | "Pacific/Chatham"
-  | "Pacific/Fakaofo";
-
 /**
  * Chart visualization styles available in TradingView.
  *
@@ -437,7 +337,7 @@ export type ComparisonSymbol = {
 /**
  * Props for the AdvancedChart component.
  */
-export type AdvancedChartProps = {
+export type AdvancedChartProps = SizedWidgetProps & {
   /**
    * The financial symbol to display (e.g., "NASDAQ:AAPL", "BINANCE:BTCUSDT").
    * This is the primary symbol that will be charted.
@@ -453,16 +353,24 @@ export type AdvancedChartProps = {
   readonly colorTheme?: ColorTheme;
 
   /**
-   * Chart width in pixels. Ignored if `autosize` is true.
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Chart width in pixels, "full" for container width, or "fit" to track the parent width.
+   * Ignored if `autosize` is true.
    * @default 400
    */
-  readonly width?: number;
+  readonly width?: Size;
 
   /**
-   * Chart height in pixels. Ignored if `autosize` is true.
+   * Chart height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default 300
    */
-  readonly height?: number;
+  readonly height?: Responsive<Size>;
 
   /**
    * Locale for chart interface and number formatting.
@@ -558,9 +466,10 @@ export type AdvancedChartProps = {
 
   /**
    * Whether to show the bottom toolbar with date range buttons.
+   * Accepts a responsive value, e.g. `{ base: false, md: true }`.
    * @default false
    */
-  readonly showBottomToolbar?: boolean;
+  readonly showBottomToolbar?: Responsive<boolean>;
 
   /**
    * Whether to show detailed information panel.
@@ -570,9 +479,10 @@ export type AdvancedChartProps = {
 
   /**
    * Whether to show the left sidebar with drawing tools.
+   * Accepts a responsive value, e.g. `{ base: false, md: true }`.
    * @default true
    */
-  readonly showDrawingToolsBar?: boolean;
+  readonly showDrawingToolsBar?: Responsive<boolean>;
 
   /**
    * Whether to show the hotlist sidebar on the right.
@@ -594,9 +504,10 @@ export type AdvancedChartProps = {
 
   /**
    * Whether to show the top toolbar with chart controls.
+   * Accepts a responsive value, e.g. `{ base: false, md: true }`.
    * @default true
    */
-  readonly showTopToolbar?: boolean;
+  readonly showTopToolbar?: Responsive<boolean>;
 
   /**
    * Whether to show volume bars at the bottom of the chart.
@@ -605,10 +516,18 @@ export type AdvancedChartProps = {
   readonly showVolume?: boolean;
 
   /**
-   * Callback function called when an error occurs during chart initialization.
-   * @param error The error that occurred
+   * Host the chart links to and loads its resources from, for serving TradingView through
+   * a proxy.
+   * @default "https://www.tradingview.com"
+   */
+  readonly supportHost?: string;
+
+  /**
+   * Callback function called when an error occurs during chart initialization,
+   * once every retry attempt has failed.
+   * @param error The error that occurred, one of the `WidgetError` subclasses
    */
-  readonly onError?: (error: Error) => void;
+  readonly onError?: (error: WidgetError) => void;
 };
 
 /**
@@ -655,7 +574,7 @@ export type AdvancedChartProps = {
  * ```
  */
 export const AdvancedChart = (props: AdvancedChartProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -680,65 +599,49 @@ export const AdvancedChart = (props: AdvancedChartProps): JSX.Element => {
       showSymbolDescription: true,
       showTopToolbar: true,
       showVolume: true,
+      supportHost: "https://www.tradingview.com",
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "timezone", "supportHost"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    container.style.width = _props.autosize ? "100%" : `${_props.width}px`;
-    container.style.height = _props.autosize ? "100%" : `${_props.height}px`;
-
-    widgetRoot.style.width = _props.autosize ? "100%" : `${_props.width}px`;
-    widgetRoot.style.height = _props.autosize ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-advanced-chart.js",
-          {
-            textContent: JSON.stringify({
-              symbol: _props.symbol,
-              width: _props.autosize ? "100%" : _props.width,
-              height: _props.autosize ? "100%" : _props.height,
-              interval: _props.interval,
-              locale: _props.locale,
-              theme: _props.colorTheme,
-              timezone: _props.timezone,
-              style: _props.chartStyle,
-              backgroundColor: _props.backgroundColor,
-              gridColor: _props.gridColor,
-              studies: _props.indicators.map((indicator) => IndicatorMap[indicator]),
-              watchlist: _props.watchlist,
-              compare_symbols: _props.compareSymbols,
-              allow_symbol_change: _props.allowSymbolChange,
-              withdateranges: _props.showBottomToolbar,
-              details: _props.showDetails,
-              hide_side_toolbar: !_props.showDrawingToolsBar,
-              hotlist: _props.showHotlist,
-              save_image: _props.showSaveImageButton,
-              hide_legend: !_props.showSymbolDescription,
-              hide_top_toolbar: !_props.showTopToolbar,
-              hide_volume: !_props.showVolume,
-              support_host: "https://www.tradingview.com",
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
-
-  return <div class="tradingview-widget-container" ref={container} />;
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="AdvancedChart"
+      scriptSrc="embed-widget-advanced-chart.js"
+      width={_props.autosize ? "full" : _props.width}
+      height={_props.autosize ? "full" : _props.height}
+      config={(resolve) => ({
+        symbol: _props.symbol,
+        width: _props.autosize ? "100%" : toConfigSize(_props.width),
+        height: _props.autosize ? "100%" : toConfigSize(resolve(_props.height)),
+        interval: _props.interval,
+        locale: _props.locale,
+        theme: colorTheme(),
+        timezone: _props.timezone,
+        style: _props.chartStyle,
+        backgroundColor: _props.backgroundColor,
+        gridColor: _props.gridColor,
+        studies: _props.indicators.map((indicator) => IndicatorMap[indicator]),
+        watchlist: _props.watchlist,
+        compare_symbols: _props.compareSymbols,
+        allow_symbol_change: _props.allowSymbolChange,
+        withdateranges: resolve(_props.showBottomToolbar),
+        details: _props.showDetails,
+        hide_side_toolbar: !resolve(_props.showDrawingToolsBar),
+        hotlist: _props.showHotlist,
+        save_image: _props.showSaveImageButton,
+        hide_legend: !_props.showSymbolDescription,
+        hide_top_toolbar: !resolve(_props.showTopToolbar),
+        hide_volume: !_props.showVolume,
+        support_host: _props.supportHost,
+      })}
+    />
+  );
 };
@@ -1,8 +1,15 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
+import { type JSX, mergeProps, splitProps } from "solid-js";
 
-import type { ColorTheme, Locale, Size } from "../types";
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import type { WidgetError } from "../core/errors";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Date range options for the MiniChart widget.
@@ -27,7 +34,7 @@ export type MiniChartDateRange = "1D" | "1M" | "3M" | "1Y" | "5Y" | "ALL";
 /**
  * Props for the MiniChart component.
  */
-export type MiniChartProps = {
+export type MiniChartProps = SizedWidgetProps & {
   /**
    * The financial symbol to display (e.g., "NASDAQ:AAPL", "BINANCE:BTCUSDT").
    * This is the primary symbol that will be charted.
@@ -44,9 +51,10 @@ export type MiniChartProps = {
 
   /**
    * Chart height in pixels. Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default "full"
    */
-  readonly height?: Size;
+  readonly height?: Responsive<Size>;
 
   /**
    * Locale for chart interface and number formatting.
@@ -66,6 +74,11 @@ export type MiniChartProps = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Custom color for the main trend line.
    * Supports any CSS color format: hex, rgb, rgba, hsl, etc.
@@ -131,10 +144,11 @@ export type MiniChartProps = {
   readonly noTimeScale?: boolean;
 
   /**
-   * Callback function called when an error occurs during chart initialization.
-   * @param error The error that occurred
+   * Callback function called when an error occurs during chart initialization,
+   * once every retry attempt has failed.
+   * @param error The error that occurred, one of the `WidgetError` subclasses
    */
-  readonly onError?: (error: Error) => void;
+  readonly onError?: (error: WidgetError) => void;
 };
 
 /**
@@ -196,7 +210,7 @@ export type MiniChartProps = {
  * ```
  */
 export const MiniChart = (props: MiniChartProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -211,56 +225,40 @@ export const MiniChart = (props: MiniChartProps): JSX.Element => {
       chartOnly: false,
       noTimeScale: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-mini-symbol-overview.js",
-          {
-            textContent: JSON.stringify({
-              symbol: _props.symbol,
-              autosize: _props.autosize,
-              width: fullWidth ? "100%" : _props.width,
-              height: fullHeight ? "100%" : _props.height,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              dateRange: _props.dateRange,
-              trendLineColor: _props.trendLineColor,
-              underLineColor: _props.underLineColor,
-              underLineBottomColor: _props.underLineBottomColor,
-              isTransparent: _props.isTransparent,
-              chartOnly: _props.chartOnly,
-              noTimeScale: _props.noTimeScale,
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
 
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
 
-  return <div class="tradingview-widget-container" ref={container} />;
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="MiniChart"
+      scriptSrc="embed-widget-mini-symbol-overview.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => ({
+        symbol: _props.symbol,
+        autosize: _props.autosize,
+        width: fullWidth() ? "100%" : toConfigSize(_props.width),
+        height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        dateRange: _props.dateRange,
+        trendLineColor: _props.trendLineColor,
+        underLineColor: _props.underLineColor,
+        underLineBottomColor: _props.underLineBottomColor,
+        isTransparent: _props.isTransparent,
+        chartOnly: _props.chartOnly,
+        noTimeScale: _props.noTimeScale,
+      })}
+    />
+  );
 };
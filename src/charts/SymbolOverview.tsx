@@ -1,8 +1,14 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
-import type { ColorTheme, Locale, Size } from "../types";
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Scale modes for price axis display in the SymbolOverview widget.
@@ -175,7 +181,7 @@ const TimeFormatMap: Record<TimeFormat, string> = {
 /**
  * Props for the SymbolOverview component.
  */
-export type SymbolOverviewProps = {
+export type SymbolOverviewProps = SizedWidgetProps & {
   /**
    * Array of financial symbols to display in the overview.
    * Each symbol should include the exchange prefix for accurate data retrieval.
@@ -198,10 +204,13 @@ export type SymbolOverviewProps = {
    */
   readonly symbols: string[];
 
-  /** Widget width in pixels, or "full" for container width */
+  /** Widget width in pixels, "full" for container width, or "fit" to track the parent width */
   readonly width?: Size;
-  /** Widget height in pixels, or "full" for container height */
-  readonly height?: Size;
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   */
+  readonly height?: Responsive<Size>;
   /** Display language and regional formatting */
   readonly locale?: Locale;
 
@@ -212,6 +221,11 @@ export type SymbolOverviewProps = {
   /** Widget color theme (light/dark) */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /** Chart visualization type (area, line, bar, candlestick) */
   readonly chartType?: ChartType;
   /** Value tracking and tooltip display mode */
@@ -308,9 +322,6 @@ export type SymbolOverviewProps = {
   readonly maLineWidth?: number;
   /** Moving average period (e.g., 20, 50, 200) */
   readonly maLength?: number;
-
-  /** Error handler for widget loading failures */
-  readonly onError?: (error: Error) => void;
 };
 
 /**
@@ -397,7 +408,7 @@ export type SymbolOverviewProps = {
  * ```
  */
 export const SymbolOverview = (props: SymbolOverviewProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -431,97 +442,81 @@ export const SymbolOverview = (props: SymbolOverviewProps): JSX.Element => {
       maLineWidth: 1,
       maLength: 9,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-symbol-overview.js",
-          {
-            textContent: JSON.stringify({
-              autosize: _props.autosize,
-              width: fullWidth ? "100%" : _props.width,
-              height: fullHeight ? "100%" : _props.height,
-              locale: _props.locale,
-              noTimeScale: !_props.showTimeScale,
-              colorTheme: _props.colorTheme,
-              scalePosition: _props.scalePosition,
-              scaleMode: ScaleModeMap[_props.scaleMode],
-              lineWidth: _props.lineWidth,
-              lineType: LineTypeMap[_props.lineType],
-              chartType: ChartTypeMap[_props.chartType],
-              valuesTracking: ValueTrackingModeMap[_props.valueTrackingMode],
-              timeHoursFormat: TimeFormatMap[_props.timeFormat],
-              headerFontSize: _props.headerFontSize,
-              hideDateRanges: !_props.showDateRanges,
-              hideMarketStatus: !_props.showMarketStatus,
-              hideSymbolLogo: !_props.showSymbolLogo,
-              fontSize: _props.fontSize,
-              fontColor: _props.fontColor,
-              showVolume: _props.showVolume,
-              volumeUpColor: _props.volumeUpColor,
-              volumeDownColor: _props.volumeDownColor,
-              showMA: _props.showMA,
-              maLineColor: _props.maLineColor,
-              maLineWidth: _props.maLineWidth,
-              maLength: _props.maLength,
-              symbols: _props.symbols.map((symbol) => {
-                // Extract exchange and symbol name for display
-                const parts = symbol.split(":");
-                const displayName = parts.length > 1 ? parts[1] : symbol;
-                return [displayName, `${symbol}|1D`];
-              }),
-              chartOnly: !_props.showHeader,
-              trendLineColor: _props.trendLineColor,
-              underLineColor: _props.underLineColor,
-              underLineBottomColor: _props.underLineBottomColor,
-              isTransparent: _props.isTransparent,
-              color: _props.color,
-              lineColor: _props.lineColor,
-              topColor: _props.topColor,
-              bottomColor: _props.bottomColor,
-              upColor: _props.upColor,
-              downColor: _props.downColor,
-              borderUpColor: _props.borderUpColor,
-              borderDownColor: _props.borderDownColor,
-              wickUpColor: _props.wickUpColor,
-              wickDownColor: _props.wickDownColor,
-              gridLineColor: _props.gridLineColor,
-              widgetFontColor: _props.widgetFontColor,
-              backgroundColor: _props.backgroundColor,
-              changeMode: _props.changeMode,
-
-              // TODO: Make this configurable
-              dateRanges: ["1d|1", "1m|30", "3m|60", "12m|1D", "60m|1W", "all|1M"],
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
-
-  return <div class="tradingview-widget-container" ref={container} />;
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="SymbolOverview"
+      scriptSrc="embed-widget-symbol-overview.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => ({
+        autosize: _props.autosize,
+        width: fullWidth() ? "100%" : toConfigSize(_props.width),
+        height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        noTimeScale: !_props.showTimeScale,
+        colorTheme: colorTheme(),
+        scalePosition: _props.scalePosition,
+        scaleMode: ScaleModeMap[_props.scaleMode],
+        lineWidth: _props.lineWidth,
+        lineType: LineTypeMap[_props.lineType],
+        chartType: ChartTypeMap[_props.chartType],
+        valuesTracking: ValueTrackingModeMap[_props.valueTrackingMode],
+        timeHoursFormat: TimeFormatMap[_props.timeFormat],
+        headerFontSize: _props.headerFontSize,
+        hideDateRanges: !_props.showDateRanges,
+        hideMarketStatus: !_props.showMarketStatus,
+        hideSymbolLogo: !_props.showSymbolLogo,
+        fontSize: _props.fontSize,
+        fontColor: _props.fontColor,
+        showVolume: _props.showVolume,
+        volumeUpColor: _props.volumeUpColor,
+        volumeDownColor: _props.volumeDownColor,
+        showMA: _props.showMA,
+        maLineColor: _props.maLineColor,
+        maLineWidth: _props.maLineWidth,
+        maLength: _props.maLength,
+        symbols: _props.symbols.map((symbol) => {
+          // Extract exchange and symbol name for display
+          const parts = symbol.split(":");
+          const displayName = parts.length > 1 ? parts[1] : symbol;
+          return [displayName, `${symbol}|1D`];
+        }),
+        chartOnly: !_props.showHeader,
+        trendLineColor: _props.trendLineColor,
+        underLineColor: _props.underLineColor,
+        underLineBottomColor: _props.underLineBottomColor,
+        isTransparent: _props.isTransparent,
+        color: _props.color,
+        lineColor: _props.lineColor,
+        topColor: _props.topColor,
+        bottomColor: _props.bottomColor,
+        upColor: _props.upColor,
+        downColor: _props.downColor,
+        borderUpColor: _props.borderUpColor,
+        borderDownColor: _props.borderDownColor,
+        wickUpColor: _props.wickUpColor,
+        wickDownColor: _props.wickDownColor,
+        gridLineColor: _props.gridLineColor,
+        widgetFontColor: _props.widgetFontColor,
+        backgroundColor: _props.backgroundColor,
+        changeMode: _props.changeMode,
+
+        // TODO: Make this configurable
+        dateRanges: ["1d|1", "1m|30", "3m|60", "12m|1D", "60m|1W", "all|1M"],
+      })}
+    />
+  );
 };
@@ -0,0 +1,82 @@
+import { render } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { describe, expect, it } from "vitest";
+
+import {
+  pickTradingViewDefaults,
+  type TradingViewDefaults,
+  TradingViewProvider,
+  useTradingViewDefaults,
+} from "./TradingViewProvider";
+
+describe("useTradingViewDefaults", () => {
+  it("returns no defaults outside of a provider", () => {
+    let defaults: TradingViewDefaults | undefined;
+
+    render(() => {
+      defaults = useTradingViewDefaults();
+      return null;
+    });
+
+    expect(defaults).toEqual({});
+  });
+
+  it("returns the defaults of the closest provider", () => {
+    let defaults: TradingViewDefaults | undefined;
+
+    const Consumer = () => {
+      defaults = useTradingViewDefaults();
+      return null;
+    };
+
+    render(() => (
+      <TradingViewProvider colorTheme="light" locale="en">
+        <TradingViewProvider colorTheme="dark">
+          <Consumer />
+        </TradingViewProvider>
+      </TradingViewProvider>
+    ));
+
+    expect(defaults?.colorTheme).toBe("dark");
+    expect(defaults?.locale).toBeUndefined();
+  });
+
+  it("keeps the defaults reactive", () => {
+    const [locale, setLocale] = createSignal<TradingViewDefaults["locale"]>("en");
+    let defaults: TradingViewDefaults | undefined;
+
+    const Consumer = () => {
+      defaults = useTradingViewDefaults();
+      return null;
+    };
+
+    render(() => (
+      <TradingViewProvider locale={locale()}>
+        <Consumer />
+      </TradingViewProvider>
+    ));
+
+    setLocale("de_DE");
+    expect(defaults?.locale).toBe("de_DE");
+  });
+});
+
+describe("pickTradingViewDefaults", () => {
+  it("returns only the given defaults", () => {
+    const onError = () => {};
+    let defaults: Partial<TradingViewDefaults> | undefined;
+
+    const Consumer = () => {
+      defaults = pickTradingViewDefaults(["colorTheme", "locale"]);
+      return null;
+    };
+
+    render(() => (
+      <TradingViewProvider colorTheme="dark" locale="fr" lazy onError={onError}>
+        <Consumer />
+      </TradingViewProvider>
+    ));
+
+    expect({ ...defaults }).toEqual({ colorTheme: "dark", locale: "fr" });
+  });
+});
@@ -0,0 +1,118 @@
+import { createContext, type JSX, splitProps, useContext } from "solid-js";
+
+import type { Breakpoint, ColorTheme, Locale, TimeZone } from "../types";
+import type { ColorThemeSource } from "./createColorTheme";
+import type { WidgetLazyOptions } from "./createTradingViewWidget";
+import type { WidgetError } from "./errors";
+
+/**
+ * Defaults applied to every widget rendered inside a {@link TradingViewProvider}.
+ * Props passed to a widget always take precedence over these defaults.
+ */
+export type TradingViewDefaults = {
+  /**
+   * Default color theme for widgets that support one.
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where widgets with `colorTheme="auto"` read the host application's theme from.
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Default locale for widget interfaces and number formatting.
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Default background transparency for widgets that support it.
+   */
+  readonly isTransparent?: boolean;
+
+  /**
+   * Default timezone for widgets that display dates and times.
+   */
+  readonly timezone?: TimeZone;
+
+  /**
+   * Whether widgets wait until they scroll into view before loading.
+   */
+  readonly lazy?: boolean | WidgetLazyOptions;
+
+  /**
+   * Widths, in pixels, at which responsive props change. Unset breakpoints keep their
+   * default of `{ sm: 480, md: 768, lg: 1024, xl: 1280 }`.
+   *
+   * @example
+   * ```tsx
+   * breakpoints={{ sm: 400, md: 640 }}
+   * ```
+   */
+  readonly breakpoints?: Partial<Record<Breakpoint, number>>;
+
+  /**
+   * Base URL the embed scripts are loaded from, e.g. an internal proxy.
+   */
+  readonly scriptBaseUrl?: string;
+
+  /**
+   * Host that widgets such as `AdvancedChart` link to and load their resources from.
+   */
+  readonly supportHost?: string;
+
+  /**
+   * Error handler for widgets that do not define their own `onError`.
+   * @param error The error that occurred
+   */
+  readonly onError?: (error: WidgetError) => void;
+};
+
+/**
+ * Props for the TradingViewProvider component.
+ */
+export type TradingViewProviderProps = TradingViewDefaults & {
+  readonly children?: JSX.Element;
+};
+
+const TradingViewContext = createContext<TradingViewDefaults>({});
+
+/**
+ * Provides shared defaults to every TradingView widget rendered below it.
+ *
+ * Widgets read theme, locale, transparency and timezone from the closest provider when
+ * the corresponding prop is not set, and fall back to the provider's `onError` when they
+ * have none. Provider values are reactive, so switching the theme here re-renders every
+ * widget that does not set its own.
+ *
+ * @example
+ * ```tsx
+ * <TradingViewProvider colorTheme="dark" locale="de_DE" timezone="Europe/Berlin">
+ *   <AdvancedChart symbol="XETR:SAP" />
+ *   <MiniChart symbol="XETR:BMW" colorTheme="light" />
+ * </TradingViewProvider>
+ * ```
+ */
+export const TradingViewProvider = (props: TradingViewProviderProps): JSX.Element => {
+  const [local, defaults] = splitProps(props, ["children"]);
+
+  return (
+    <TradingViewContext.Provider value={defaults}>{local.children}</TradingViewContext.Provider>
+  );
+};
+
+/**
+ * Returns the defaults of the closest {@link TradingViewProvider}, or an empty object
+ * when the widget is rendered outside of one.
+ */
+export const useTradingViewDefaults = (): TradingViewDefaults => useContext(TradingViewContext);
+
+/**
+ * Returns the given fields of the closest {@link TradingViewProvider}'s defaults, for a widget
+ * to merge under its own props. Picking them keeps provider fields a widget's configuration
+ * does not use, such as `onError` or `lazy`, out of its props.
+ * @internal
+ */
+export const pickTradingViewDefaults = <K extends keyof TradingViewDefaults>(
+  keys: readonly K[],
+): Pick<TradingViewDefaults, K> => splitProps(useTradingViewDefaults(), keys)[0];
@@ -0,0 +1,278 @@
+import { loadScript } from "@dschz/load-script";
+import { fireEvent, render, screen, waitFor } from "@solidjs/testing-library";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { TradingViewWidgetController } from "./createTradingViewWidget";
+import { WidgetScriptLoadError } from "./errors";
+import { TradingViewProvider } from "./TradingViewProvider";
+import { resolveScriptSrc, TradingViewWidget } from "./TradingViewWidget";
+
+vi.mock("@dschz/load-script", () => ({ loadScript: vi.fn() }));
+
+const mockLoadScript = vi.mocked(loadScript);
+
+const DEFAULT_BASE_URL = "https://s3.tradingview.com/external-embedding";
+
+const getWidgetContainer = (container: HTMLElement) =>
+  container.querySelector<HTMLElement>(".tradingview-widget-container")!;
+
+describe("resolveScriptSrc", () => {
+  it("resolves file names against the base URL", () => {
+    expect(resolveScriptSrc("embed-widget-tickers.js", DEFAULT_BASE_URL)).toBe(
+      `${DEFAULT_BASE_URL}/embed-widget-tickers.js`,
+    );
+  });
+
+  it("ignores trailing slashes of the base URL", () => {
+    expect(resolveScriptSrc("embed-widget-tickers.js", "https://proxy.example.com/tv//")).toBe(
+      "https://proxy.example.com/tv/embed-widget-tickers.js",
+    );
+  });
+
+  it("leaves absolute URLs and paths as they are", () => {
+    expect(resolveScriptSrc("https://cdn.example.com/a.js", DEFAULT_BASE_URL)).toBe(
+      "https://cdn.example.com/a.js",
+    );
+    expect(resolveScriptSrc("//cdn.example.com/a.js", DEFAULT_BASE_URL)).toBe(
+      "//cdn.example.com/a.js",
+    );
+    expect(resolveScriptSrc("/vendor/tradingview/a.js", DEFAULT_BASE_URL)).toBe(
+      "/vendor/tradingview/a.js",
+    );
+  });
+});
+
+describe("TradingViewWidget", () => {
+  beforeEach(() => {
+    mockLoadScript.mockResolvedValue(document.createElement("script"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    mockLoadScript.mockReset();
+  });
+
+  it("renders the widget container and loads the embed script into it", () => {
+    const { container } = render(() => (
+      <TradingViewWidget
+        scriptSrc="https://cdn.example.com/embed-widget-tickers.js"
+        config={() => ({ symbols: [] })}
+      />
+    ));
+
+    expect(mockLoadScript).toHaveBeenCalledWith(
+      "https://cdn.example.com/embed-widget-tickers.js",
+      { textContent: '{"symbols":[]}' },
+      expect.any(HTMLDivElement),
+    );
+    expect(mockLoadScript.mock.calls[0]?.[2]?.parentElement).toBe(getWidgetContainer(container));
+  });
+
+  it("loads the embed script from the default base URL", () => {
+    render(() => (
+      <TradingViewWidget scriptSrc="embed-widget-tickers.js" config={() => ({ symbols: [] })} />
+    ));
+
+    expect(mockLoadScript).toHaveBeenCalledWith(
+      `${DEFAULT_BASE_URL}/embed-widget-tickers.js`,
+      { textContent: '{"symbols":[]}' },
+      expect.any(HTMLDivElement),
+    );
+  });
+
+  it("loads the embed script from the base URL of the provider or its props", () => {
+    render(() => (
+      <TradingViewProvider scriptBaseUrl="https://proxy.example.com/tv">
+        <TradingViewWidget scriptSrc="a.js" config={() => ({})} />
+        <TradingViewWidget
+          scriptSrc="b.js"
+          scriptBaseUrl="https://other.example.com"
+          config={() => ({})}
+        />
+      </TradingViewProvider>
+    ));
+
+    expect(mockLoadScript.mock.calls.map(([src]) => src)).toEqual([
+      "https://proxy.example.com/tv/a.js",
+      "https://other.example.com/b.js",
+    ]);
+  });
+  it("sizes the container", () => {
+    const { container } = render(() => (
+      <TradingViewWidget
+        scriptSrc="a.js"
+        config={() => ({})}
+        width={400}
+        height="full"
+        minHeight={200}
+        maxHeight={600}
+      />
+    ));
+
+    expect(getWidgetContainer(container)).toHaveStyle({
+      width: "400px",
+      height: "100%",
+      "min-height": "200px",
+      "max-height": "600px",
+    });
+  });
+
+  it("resolves responsive sizes and config against the width of its parent", () => {
+    let resize: ((entries: { contentRect: { width: number } }[]) => void) | undefined;
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        constructor(callback: typeof resize) {
+          resize = callback;
+        }
+        observe() {}
+        disconnect() {}
+      },
+    );
+
+    const { container } = render(() => (
+      <TradingViewWidget
+        scriptSrc="a.js"
+        width={{ base: 300, lg: 600 }}
+        config={(resolve) => ({ displayMode: resolve({ base: "compact", lg: "regular" }) })}
+      />
+    ));
+
+    expect(getWidgetContainer(container)).toHaveStyle({ width: "300px" });
+
+    resize?.([{ contentRect: { width: 1024 } }]);
+
+    expect(getWidgetContainer(container)).toHaveStyle({ width: "600px" });
+    expect(mockLoadScript).toHaveBeenLastCalledWith(
+      expect.any(String),
+      { textContent: '{"displayMode":"regular"}' },
+      expect.any(HTMLDivElement),
+    );
+  });
+
+  it("moves the container off-screen while the fallback is shown", async () => {
+    const { container } = render(() => (
+      <TradingViewWidget scriptSrc="a.js" config={() => ({})} fallback={<p>Loading...</p>} />
+    ));
+    const widgetContainer = getWidgetContainer(container);
+
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+    expect(widgetContainer).toHaveStyle({ position: "absolute", visibility: "hidden" });
+    expect(widgetContainer).toHaveAttribute("aria-hidden", "true");
+
+    const iframe = document.createElement("iframe");
+    widgetContainer.firstElementChild!.appendChild(iframe);
+    await Promise.resolve();
+    iframe.dispatchEvent(new Event("load"));
+
+    await waitFor(() => expect(screen.queryByText("Loading...")).not.toBeInTheDocument());
+    expect(widgetContainer).not.toHaveStyle({ visibility: "hidden" });
+    expect(widgetContainer).not.toHaveAttribute("aria-hidden");
+  });
+
+  it("keeps the container in place without a fallback", () => {
+    const { container } = render(() => <TradingViewWidget scriptSrc="a.js" config={() => ({})} />);
+
+    expect(getWidgetContainer(container)).not.toHaveStyle({ visibility: "hidden" });
+  });
+
+  it("shows the error fallback with a retry callback when loading fails", async () => {
+    mockLoadScript.mockRejectedValueOnce(new Event("error"));
+    const onError = vi.fn();
+
+    render(() => (
+      <TradingViewWidget
+        scriptSrc="a.js"
+        config={() => ({})}
+        onError={onError}
+        errorFallback={(error, retry) => <button onClick={retry}>{error.name}</button>}
+      />
+    ));
+
+    const button = await screen.findByText("WidgetScriptLoadError");
+    expect(onError).toHaveBeenCalledWith(expect.any(WidgetScriptLoadError));
+
+    fireEvent.click(button);
+
+    expect(mockLoadScript).toHaveBeenCalledTimes(2);
+    expect(screen.queryByText("WidgetScriptLoadError")).not.toBeInTheDocument();
+  });
+
+  it("creates each fallback only once", async () => {
+    mockLoadScript.mockRejectedValueOnce(new Event("error"));
+    const onLoadingCreated = vi.fn();
+    const onFailedCreated = vi.fn();
+    const Loading = () => {
+      onLoadingCreated();
+      return <p>Loading...</p>;
+    };
+    const Failed = () => {
+      onFailedCreated();
+      return <p>Failed</p>;
+    };
+
+    render(() => (
+      <TradingViewWidget
+        scriptSrc="a.js"
+        config={() => ({})}
+        fallback={<Loading />}
+        errorFallback={<Failed />}
+      />
+    ));
+
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+    await screen.findByText("Failed");
+
+    expect(onLoadingCreated).toHaveBeenCalledOnce();
+    expect(onFailedCreated).toHaveBeenCalledOnce();
+  });
+
+  it("forwards retries to onRetry", async () => {
+    mockLoadScript.mockRejectedValueOnce(new Event("error"));
+    const onRetry = vi.fn();
+
+    render(() => (
+      <TradingViewWidget
+        scriptSrc="a.js"
+        config={() => ({})}
+        retry={{ delayMs: 0, jitter: false }}
+        onRetry={onRetry}
+      />
+    ));
+
+    await waitFor(() =>
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(WidgetScriptLoadError), 0),
+    );
+    await waitFor(() => expect(mockLoadScript).toHaveBeenCalledTimes(2));
+  });
+
+  it("falls back to the onError of the provider", async () => {
+    mockLoadScript.mockRejectedValueOnce(new Event("error"));
+    const onError = vi.fn();
+
+    render(() => (
+      <TradingViewProvider onError={onError}>
+        <TradingViewWidget scriptSrc="a.js" config={() => ({})} />
+      </TradingViewProvider>
+    ));
+
+    await waitFor(() => expect(onError).toHaveBeenCalledOnce());
+  });
+
+  it("hands the widget controller to its ref", () => {
+    let controller: TradingViewWidgetController | undefined;
+
+    render(() => (
+      <TradingViewWidget
+        scriptSrc="a.js"
+        config={() => ({})}
+        ref={(value) => (controller = value)}
+      />
+    ));
+
+    expect(controller?.status()).toBe("loading");
+
+    controller?.reload();
+    expect(mockLoadScript).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,360 @@
+import { children, createMemo, type JSX, onMount, type Ref, Show } from "solid-js";
+
+import type { Responsive, Size } from "../types";
+import {
+  createTradingViewWidget,
+  toCssSize,
+  type TradingViewWidgetConfig,
+  type TradingViewWidgetController,
+  type WidgetLazyOptions,
+  type WidgetRetryOptions,
+} from "./createTradingViewWidget";
+import type { WidgetError } from "./errors";
+import { createParentWidth, resolveResponsive, type ResponsiveResolver } from "./responsive";
+import { useTradingViewDefaults } from "./TradingViewProvider";
+
+/**
+ * Props shared by every widget component, covering the widget lifecycle and container
+ * rather than the TradingView configuration.
+ */
+export type BaseWidgetProps = {
+  /**
+   * Callback function called when an error occurs during widget initialization,
+   * once every retry attempt has failed.
+   * @param error The error that occurred, one of the `WidgetError` subclasses
+   */
+  readonly onError?: (error: WidgetError) => void;
+
+  /**
+   * How failed script loads are retried. When omitted, a failed load is not retried.
+   *
+   * @example
+   * ```tsx
+   * retry={{ attempts: 5, delayMs: 500 }}
+   * ```
+   */
+  readonly retry?: WidgetRetryOptions;
+
+  /**
+   * Callback function called each time a failed load is about to be retried.
+   * @param attempt The retry attempt number, starting at 1
+   * @param error The error that made the previous attempt fail
+   * @param delayMs The delay before the retry, in milliseconds
+   */
+  readonly onRetry?: (attempt: number, error: WidgetError, delayMs: number) => void;
+
+  /**
+   * Time allowed for the embed script to load, in milliseconds. When it elapses, the
+   * attempt fails with a `WidgetTimeoutError`, which is retried like any other failure.
+   * When omitted, the script load never times out.
+   */
+  readonly loadTimeoutMs?: number;
+
+  /**
+   * Whether to wait until the widget scrolls into view before loading the embed script.
+   * Until then, the empty container holds the widget's size and no `fallback` is shown.
+   * Pass an object to configure how close to the viewport loading starts.
+   *
+   * @example
+   * ```tsx
+   * lazy={{ rootMargin: "400px 0px" }}
+   * ```
+   */
+  readonly lazy?: boolean | WidgetLazyOptions;
+
+  /**
+   * Time to wait after props last changed before rebuilding the widget, in milliseconds.
+   * Changes that produce the same configuration never rebuild it.
+   *
+   * @example
+   * ```tsx
+   * <AdvancedChart symbol={symbol()} rebuildDebounceMs={300} />
+   * ```
+   */
+  readonly rebuildDebounceMs?: number;
+
+  /**
+   * Base URL the embed script is loaded from, for serving TradingView's scripts through a
+   * proxy or a local stand-in.
+   * @default "https://s3.tradingview.com/external-embedding"
+   */
+  readonly scriptBaseUrl?: string;
+
+  /**
+   * Callback function called once the TradingView embed script has loaded.
+   */
+  readonly onScriptLoad?: () => void;
+
+  /**
+   * Callback function called when the widget iframe has loaded and is ready to be shown.
+   */
+  readonly onReady?: () => void;
+
+  /**
+   * Content shown in place of the widget until its iframe has loaded.
+   *
+   * @example
+   * ```tsx
+   * fallback={<Spinner />}
+   * ```
+   */
+  readonly fallback?: JSX.Element;
+
+  /**
+   * Content shown in place of the widget when it fails to load.
+   * Pass a function to receive the error and a `retry` callback that reloads the widget.
+   *
+   * @example
+   * ```tsx
+   * errorFallback={(error, retry) => (
+   *   <div>
+   *     Failed to load: {error.message}
+   *     <button onClick={retry}>Retry</button>
+   *   </div>
+   * )}
+   * ```
+   */
+  readonly errorFallback?: JSX.Element | ((error: WidgetError, retry: () => void) => JSX.Element);
+
+  /**
+   * Receives the widget controller, which exposes its loading status and a `reload` method.
+   *
+   * @example
+   * ```tsx
+   * let chart!: TradingViewWidgetController;
+   *
+   * <AdvancedChart symbol="NASDAQ:AAPL" ref={chart} />
+   * <button onClick={() => chart.reload()}>Reload</button>
+   * ```
+   */
+  readonly ref?: Ref<TradingViewWidgetController>;
+};
+
+/**
+ * Keys of {@link BaseWidgetProps}, used by widgets to forward them with `splitProps`.
+ * @internal
+ */
+export const BASE_WIDGET_PROPS = [
+  "onError",
+  "retry",
+  "onRetry",
+  "loadTimeoutMs",
+  "lazy",
+  "rebuildDebounceMs",
+  "scriptBaseUrl",
+  "onScriptLoad",
+  "onReady",
+  "fallback",
+  "errorFallback",
+  "ref",
+] as const;
+
+/**
+ * Props shared by widgets that have a height: the {@link BaseWidgetProps}, plus the props
+ * controlling how their container is sized.
+ */
+export type SizedWidgetProps = BaseWidgetProps & {
+  /**
+   * Width-to-height ratio of the widget, e.g. `16 / 9`. Applies when the height is "full"
+   * or "fit", and derives the height from the measured width of the widget instead.
+   *
+   * @example
+   * ```tsx
+   * <MiniChart symbol="NASDAQ:AAPL" width="full" height="full" aspectRatio={16 / 9} />
+   * ```
+   */
+  readonly aspectRatio?: number;
+
+  /**
+   * Minimum height of the widget, in pixels.
+   */
+  readonly minHeight?: number;
+
+  /**
+   * Maximum height of the widget, in pixels.
+   */
+  readonly maxHeight?: number;
+};
+
+/**
+ * Keys of {@link SizedWidgetProps}, used by widgets that have a height to forward them with
+ * `splitProps`.
+ * @internal
+ */
+export const SIZED_WIDGET_PROPS = [
+  ...BASE_WIDGET_PROPS,
+  "aspectRatio",
+  "minHeight",
+  "maxHeight",
+] as const;
+
+const DEFAULT_SCRIPT_BASE_URL = "https://s3.tradingview.com/external-embedding";
+
+/**
+ * Resolves a script file name against a base URL, leaving absolute URLs and paths as is.
+ * @internal
+ */
+export const resolveScriptSrc = (scriptSrc: string, baseUrl: string) =>
+  /^([a-z][a-z\d+.-]*:)?\//i.test(scriptSrc)
+    ? scriptSrc
+    : `${baseUrl.replace(/\/+$/, "")}/${scriptSrc}`;
+
+const toOptionalCssSize = (size: Size | undefined) =>
+  size === undefined ? undefined : toCssSize(size);
+
+/**
+ * Props for the TradingViewWidget component.
+ */
+export type TradingViewWidgetProps = SizedWidgetProps & {
+  /**
+   * Name of the widget, reported on the errors it raises.
+   * @default "TradingViewWidget"
+   */
+  readonly widgetName?: string;
+
+  /**
+   * File name of the TradingView embed script that renders the widget, resolved against
+   * `scriptBaseUrl`. Absolute URLs and paths are used as they are.
+   *
+   * @example
+   * ```tsx
+   * scriptSrc="embed-widget-single-quote.js"
+   * ```
+   */
+  readonly scriptSrc: string;
+
+  /**
+   * Reactive accessor returning the widget configuration.
+   * The widget is rebuilt whenever the configuration it returns changes.
+   *
+   * It receives a `resolve` function that turns {@link Responsive} props into the value for
+   * the current width of the widget's parent element.
+   */
+  readonly config: (resolve: ResponsiveResolver) => TradingViewWidgetConfig;
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * When omitted, no width is applied to the container.
+   */
+  readonly width?: Responsive<Size>;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * When omitted, no height is applied to the container.
+   */
+  readonly height?: Responsive<Size>;
+};
+
+/**
+ * Generic host for any TradingView embed widget.
+ *
+ * Renders the `tradingview-widget-container` element and mounts the given embed script
+ * into it with {@link createTradingViewWidget}. Every widget in this library is built on
+ * this component, and it can be used directly to embed widgets that are not covered yet.
+ *
+ * When rendered on the server, it outputs the sized, empty container (or the `fallback`)
+ * as a placeholder, and the embed script is only loaded once the page has hydrated.
+ *
+ * @see https://www.tradingview.com/widget-docs/
+ *
+ * @example
+ * ```tsx
+ * <TradingViewWidget
+ *   scriptSrc="embed-widget-single-quote.js"
+ *   width="full"
+ *   config={() => ({ symbol: "NASDAQ:AAPL", width: "100%", colorTheme: "dark" })}
+ *   fallback={<p>Loading quote...</p>}
+ *   errorFallback={(error, retry) => <button onClick={retry}>{error.message}</button>}
+ * />
+ * ```
+ */
+export const TradingViewWidget = (props: TradingViewWidgetProps): JSX.Element => {
+  let container!: HTMLDivElement;
+
+  const defaults = useTradingViewDefaults();
+
+  // Measured before the widget is built, so that its first build uses the resolved values
+  const parentWidth = createParentWidth(() => container);
+  const resolve: ResponsiveResolver = (value) =>
+    resolveResponsive(value, parentWidth(), defaults.breakpoints);
+
+  // Memoized so that sizing only reacts when a breakpoint changes the resolved size, not on
+  // every pixel the parent is resized by
+  const width = createMemo(() => resolve(props.width));
+  const height = createMemo(() => resolve(props.height));
+
+  const widget = createTradingViewWidget(() => container, {
+    get widgetName() {
+      return props.widgetName;
+    },
+    get scriptSrc() {
+      const baseUrl = props.scriptBaseUrl ?? defaults.scriptBaseUrl ?? DEFAULT_SCRIPT_BASE_URL;
+      return resolveScriptSrc(props.scriptSrc, baseUrl);
+    },
+    config: () => props.config(resolve),
+    width,
+    height,
+    aspectRatio: () => props.aspectRatio,
+    minHeight: () => props.minHeight,
+    maxHeight: () => props.maxHeight,
+    get retry() {
+      return props.retry;
+    },
+    get loadTimeoutMs() {
+      return props.loadTimeoutMs;
+    },
+    get lazy() {
+      return props.lazy ?? defaults.lazy;
+    },
+    get rebuildDebounceMs() {
+      return props.rebuildDebounceMs;
+    },
+    onError: (error) => (props.onError ?? defaults.onError)?.(error),
+    onRetry: (attempt, error, delayMs) => props.onRetry?.(attempt, error, delayMs),
+    onScriptLoad: () => props.onScriptLoad?.(),
+    onReady: () => props.onReady?.(),
+  });
+
+  onMount(() => {
+    const ref = props.ref;
+    if (typeof ref === "function") ref(widget);
+  });
+
+  // Each read of a JSX prop creates its elements anew, so the fallbacks are read only once
+  const fallback = children(() => props.fallback);
+  const errorFallback = createMemo(() => props.errorFallback);
+
+  // The container stays mounted so the embed script keeps rendering into it, and is moved
+  // off-screen while a fallback is shown in its place. Unlike `display: none`, this keeps it
+  // sized, so embeds that measure themselves on load initialize at a real size. Idle lazy
+  // widgets keep it in place, as an off-screen container never scrolls into view
+  const hidden = () =>
+    (widget.status() === "loading" && fallback() !== undefined) ||
+    (widget.status() === "error" && errorFallback() !== undefined);
+
+  const renderErrorFallback = (error: WidgetError) => {
+    const render = errorFallback();
+    return typeof render === "function" ? render(error, widget.reload) : render;
+  };
+
+  return (
+    <>
+      <Show when={widget.status() === "loading"}>{fallback()}</Show>
+      <Show when={widget.error()}>{(error) => renderErrorFallback(error())}</Show>
+      <div
+        class="tradingview-widget-container"
+        style={{
+          width: toOptionalCssSize(width()),
+          height: toOptionalCssSize(height()),
+          "min-height": props.minHeight !== undefined ? `${props.minHeight}px` : undefined,
+          "max-height": props.maxHeight !== undefined ? `${props.maxHeight}px` : undefined,
+          position: hidden() ? "absolute" : undefined,
+          left: hidden() ? "-10000px" : undefined,
+          visibility: hidden() ? "hidden" : undefined,
+        }}
+        aria-hidden={hidden() || undefined}
+        ref={container}
+      />
+    </>
+  );
+};
@@ -0,0 +1,123 @@
+import { type Accessor, createRoot, createSignal } from "solid-js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ColorTheme } from "../types";
+import { type ColorThemeSource, createColorTheme } from "./createColorTheme";
+
+describe("createColorTheme", () => {
+  let prefersDark = false;
+  let listeners: ((event: MediaQueryListEvent) => void)[] = [];
+
+  const setPrefersDark = (matches: boolean) => {
+    prefersDark = matches;
+    listeners.forEach((listener) => listener({ matches } as MediaQueryListEvent));
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal("matchMedia", (query: string) => ({
+      matches: prefersDark,
+      media: query,
+      addEventListener: (_: string, listener: (event: MediaQueryListEvent) => void) =>
+        listeners.push(listener),
+      removeEventListener: (_: string, listener: (event: MediaQueryListEvent) => void) => {
+        listeners = listeners.filter((item) => item !== listener);
+      },
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    prefersDark = false;
+    listeners = [];
+    document.documentElement.removeAttribute("data-theme");
+    document.documentElement.className = "";
+  });
+
+  const setup = (theme: Accessor<ColorTheme>, source?: Accessor<ColorThemeSource | undefined>) =>
+    createRoot((dispose) => [createColorTheme(theme, source), dispose] as const);
+
+  it("passes fixed themes through", () => {
+    setPrefersDark(true);
+    const [colorTheme, dispose] = setup(() => "light");
+
+    expect(colorTheme()).toBe("light");
+    dispose();
+  });
+
+  it("follows the operating system preference for auto", () => {
+    const [colorTheme, dispose] = setup(() => "auto");
+    expect(colorTheme()).toBe("light");
+
+    setPrefersDark(true);
+    expect(colorTheme()).toBe("dark");
+
+    dispose();
+    expect(listeners).toHaveLength(0);
+  });
+
+  it("follows the theme attribute of the source", async () => {
+    setPrefersDark(true);
+    document.documentElement.setAttribute("data-theme", "light");
+    const [colorTheme, dispose] = setup(
+      () => "auto",
+      () => ({}),
+    );
+    expect(colorTheme()).toBe("light");
+
+    document.documentElement.setAttribute("data-theme", "dark");
+    await Promise.resolve();
+    expect(colorTheme()).toBe("dark");
+
+    dispose();
+  });
+
+  it("follows a custom attribute and dark value", async () => {
+    const target = document.createElement("div");
+    const [colorTheme, dispose] = setup(
+      () => "auto",
+      () => ({ target, attribute: "data-mode", darkValue: "night" }),
+    );
+
+    target.setAttribute("data-mode", "night");
+    await Promise.resolve();
+    expect(colorTheme()).toBe("dark");
+
+    dispose();
+  });
+
+  it("follows the dark class of the source", async () => {
+    const [colorTheme, dispose] = setup(
+      () => "auto",
+      () => ({ darkClass: "dark" }),
+    );
+    expect(colorTheme()).toBe("light");
+
+    document.documentElement.classList.add("dark");
+    await Promise.resolve();
+    expect(colorTheme()).toBe("dark");
+
+    dispose();
+  });
+
+  it("falls back to the operating system preference when the source is removed", () => {
+    setPrefersDark(true);
+    const [source, setSource] = createSignal<ColorThemeSource | undefined>({});
+    const [colorTheme, dispose] = createRoot(
+      (dispose) => [createColorTheme(() => "auto", source), dispose] as const,
+    );
+    expect(colorTheme()).toBe("light");
+
+    setSource(undefined);
+    expect(colorTheme()).toBe("dark");
+
+    dispose();
+  });
+
+  it("resolves auto to light without matchMedia", () => {
+    vi.stubGlobal("matchMedia", undefined);
+    const [colorTheme, dispose] = setup(() => "auto");
+
+    expect(colorTheme()).toBe("light");
+    dispose();
+  });
+});
@@ -0,0 +1,121 @@
+import { type Accessor, createEffect, createMemo, createSignal, onCleanup } from "solid-js";
+
+import type { ColorTheme, ResolvedColorTheme } from "../types";
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Describes where the host application keeps its current theme, so that widgets with
+ * `colorTheme="auto"` follow it instead of the operating system preference.
+ *
+ * Set `darkClass` for apps that toggle a class such as `class="dark"`, or `attribute`
+ * for apps that use an attribute such as `data-theme="dark"`.
+ *
+ * @example
+ * ```tsx
+ * themeSource={{ attribute: "data-theme" }} // <html data-theme="dark">
+ * themeSource={{ darkClass: "dark" }} // <html class="dark">
+ * themeSource={{ target: document.body, attribute: "data-mode", darkValue: "night" }}
+ * ```
+ */
+export type ColorThemeSource = {
+  /**
+   * Element that carries the theme attribute or class.
+   * @default document.documentElement
+   */
+  readonly target?: Element;
+
+  /**
+   * Attribute holding the theme. Ignored when `darkClass` is set.
+   * @default "data-theme"
+   */
+  readonly attribute?: string;
+
+  /**
+   * Value of `attribute` that means the dark theme. Any other value means light.
+   * @default "dark"
+   */
+  readonly darkValue?: string;
+
+  /**
+   * Class whose presence on `target` means the dark theme.
+   */
+  readonly darkClass?: string;
+};
+
+/**
+ * Whether the given theme source currently indicates the dark theme.
+ * @internal
+ */
+const isSourceDark = (target: Element, source: ColorThemeSource) => {
+  if (source.darkClass) return target.classList.contains(source.darkClass);
+
+  return target.getAttribute(source.attribute ?? "data-theme") === (source.darkValue ?? "dark");
+};
+
+/**
+ * Resolves a {@link ColorTheme} to the "light" or "dark" theme TradingView understands.
+ *
+ * `"auto"` follows the host application's theme when a {@link ColorThemeSource} is given,
+ * and the operating system's `prefers-color-scheme` otherwise. Either way the resolved
+ * theme updates when the underlying preference changes at runtime, so widgets built on it
+ * are re-rendered in the new theme. Outside the browser, `"auto"` resolves to "light".
+ *
+ * @param theme Accessor returning the requested color theme
+ * @param source Accessor returning where to read the host application's theme from
+ * @returns Accessor returning the resolved color theme
+ *
+ * @example
+ * ```ts
+ * const colorTheme = createColorTheme(
+ *   () => props.colorTheme,
+ *   () => ({ darkClass: "dark" }),
+ * );
+ * colorTheme(); // "dark" when props.colorTheme is "auto" and <html> has the "dark" class
+ * ```
+ */
+export const createColorTheme = (
+  theme: Accessor<ColorTheme>,
+  source?: Accessor<ColorThemeSource | undefined>,
+): Accessor<ResolvedColorTheme> => {
+  const [prefersDark, setPrefersDark] = createSignal(false);
+  const [sourceDark, setSourceDark] = createSignal<boolean>();
+
+  if (typeof window !== "undefined" && typeof window.matchMedia === "function") {
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    setPrefersDark(query.matches);
+
+    const onChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+    query.addEventListener("change", onChange);
+    onCleanup(() => query.removeEventListener("change", onChange));
+  }
+
+  createEffect(() => {
+    const themeSource = source?.();
+    if (!themeSource) {
+      setSourceDark(undefined);
+      return;
+    }
+
+    const target = themeSource.target ?? document.documentElement;
+    const update = () => setSourceDark(isSourceDark(target, themeSource));
+    update();
+
+    const observer = new MutationObserver(update);
+    observer.observe(target, {
+      attributes: true,
+      attributeFilter: [themeSource.darkClass ? "class" : (themeSource.attribute ?? "data-theme")],
+    });
+
+    onCleanup(() => observer.disconnect());
+  });
+
+  const resolvedTheme = createMemo(() => {
+    const value = theme();
+    if (value !== "auto") return value;
+
+    return (sourceDark() ?? prefersDark()) ? "dark" : "light";
+  });
+
+  return resolvedTheme;
+};
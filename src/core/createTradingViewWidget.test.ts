@@ -0,0 +1,603 @@
+import { loadScript } from "@dschz/load-script";
+import { createRoot, createSignal } from "solid-js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  clampHeight,
+  createTradingViewWidget,
+  type CreateTradingViewWidgetOptions,
+  toConfigSize,
+  toCssSize,
+} from "./createTradingViewWidget";
+import { WidgetConfigError, WidgetScriptLoadError, WidgetTimeoutError } from "./errors";
+
+vi.mock("@dschz/load-script", () => ({ loadScript: vi.fn() }));
+
+const mockLoadScript = vi.mocked(loadScript);
+
+const SCRIPT_SRC = "https://s3.tradingview.com/external-embedding/embed-widget-single-quote.js";
+
+/** Lets pending promises, such as a resolved script load, settle */
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+/** The widget root handed to the script loaded by the given call */
+const widgetRootOf = (call: number) => mockLoadScript.mock.calls[call]?.[2] as HTMLElement;
+
+describe("toCssSize", () => {
+  it("converts sizes to CSS lengths", () => {
+    expect(toCssSize(300)).toBe("300px");
+    expect(toCssSize("full")).toBe("100%");
+    expect(toCssSize("fit")).toBe("100%");
+  });
+});
+
+describe("toConfigSize", () => {
+  it("converts sizes to configuration values", () => {
+    expect(toConfigSize(300)).toBe(300);
+    expect(toConfigSize("full")).toBe("100%");
+    expect(toConfigSize("fit")).toBe("100%");
+  });
+});
+
+describe("clampHeight", () => {
+  it("returns the height when it has no bounds", () => {
+    expect(clampHeight(250)).toBe(250);
+  });
+
+  it("clamps the height between its bounds", () => {
+    expect(clampHeight(100, 200)).toBe(200);
+    expect(clampHeight(500, undefined, 400)).toBe(400);
+    expect(clampHeight(300, 200, 400)).toBe(300);
+  });
+});
+
+describe("createTradingViewWidget", () => {
+  let host: HTMLDivElement;
+  let dispose: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockLoadScript.mockResolvedValue(document.createElement("script"));
+
+    host = document.createElement("div");
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    dispose?.();
+    dispose = undefined;
+    host.remove();
+
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    mockLoadScript.mockReset();
+  });
+
+  const setup = (options: Partial<CreateTradingViewWidgetOptions> = {}) =>
+    createRoot((disposeRoot) => {
+      dispose = disposeRoot;
+      return createTradingViewWidget(() => host, {
+        scriptSrc: SCRIPT_SRC,
+        config: () => ({ symbol: "NASDAQ:AAPL" }),
+        ...options,
+      });
+    });
+
+  describe("loading", () => {
+    it("loads the embed script into a widget root with the serialized config", () => {
+      const widget = setup({ width: () => 300, height: () => "full" });
+
+      expect(widget.status()).toBe("loading");
+      expect(mockLoadScript).toHaveBeenCalledWith(
+        SCRIPT_SRC,
+        { textContent: '{"symbol":"NASDAQ:AAPL"}' },
+        expect.any(HTMLDivElement),
+      );
+
+      const root = widgetRootOf(0);
+      expect(root.parentElement).toBe(host);
+      expect(root.classList).toContain("tradingview-widget-container__widget");
+      expect(root.style.width).toBe("300px");
+      expect(root.style.height).toBe("100%");
+    });
+
+    it("calls onScriptLoad once the embed script has loaded", async () => {
+      const onScriptLoad = vi.fn();
+      setup({ onScriptLoad });
+      expect(onScriptLoad).not.toHaveBeenCalled();
+
+      await flush();
+      expect(onScriptLoad).toHaveBeenCalledOnce();
+    });
+
+    it("becomes ready once the widget iframe has loaded", async () => {
+      const onReady = vi.fn();
+      const widget = setup({ onReady });
+
+      const iframe = document.createElement("iframe");
+      widgetRootOf(0).appendChild(iframe);
+      await flush();
+
+      expect(widget.status()).toBe("loading");
+      iframe.dispatchEvent(new Event("load"));
+
+      expect(widget.status()).toBe("ready");
+      expect(onReady).toHaveBeenCalledOnce();
+    });
+
+    it("removes the widget when disposed", () => {
+      setup();
+      const root = widgetRootOf(0);
+
+      dispose?.();
+      expect(root.isConnected).toBe(false);
+    });
+
+    it("waits for its container", () => {
+      const [container, setContainer] = createSignal<HTMLElement>();
+      const widget = createRoot((disposeRoot) => {
+        dispose = disposeRoot;
+        return createTradingViewWidget(container, { scriptSrc: SCRIPT_SRC, config: () => ({}) });
+      });
+
+      expect(widget.status()).toBe("loading");
+      expect(mockLoadScript).not.toHaveBeenCalled();
+
+      setContainer(host);
+      expect(widgetRootOf(0).parentElement).toBe(host);
+    });
+  });
+
+  describe("errors", () => {
+    it("reports a WidgetConfigError without loading the script", () => {
+      const onError = vi.fn();
+      const config: Record<string, unknown> = {};
+      config.self = config;
+
+      const widget = setup({ widgetName: "MiniChart", config: () => config, onError });
+
+      expect(mockLoadScript).not.toHaveBeenCalled();
+      expect(widget.status()).toBe("error");
+      expect(widget.error()).toBeInstanceOf(WidgetConfigError);
+      expect(widget.error()?.widgetName).toBe("MiniChart");
+      expect(widget.error()?.cause).toBeInstanceOf(TypeError);
+      expect(onError).toHaveBeenCalledWith(widget.error());
+    });
+
+    it("reports a WidgetScriptLoadError when the script fails to load", async () => {
+      const cause = new Event("error");
+      mockLoadScript.mockRejectedValue(cause);
+      const onError = vi.fn();
+
+      const widget = setup({ onError });
+      await flush();
+
+      expect(widget.status()).toBe("error");
+      expect(widget.error()).toBeInstanceOf(WidgetScriptLoadError);
+      expect(widget.error()?.scriptSrc).toBe(SCRIPT_SRC);
+      expect(widget.error()?.config).toBe('{"symbol":"NASDAQ:AAPL"}');
+      expect(widget.error()?.cause).toBe(cause);
+      expect(onError).toHaveBeenCalledOnce();
+    });
+
+    it("reports a WidgetTimeoutError when the script does not load in time", async () => {
+      mockLoadScript.mockReturnValue(new Promise(() => {}));
+      const onError = vi.fn();
+
+      const widget = setup({ loadTimeoutMs: 5000, onError });
+
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(widget.status()).toBe("loading");
+
+      await vi.advanceTimersByTimeAsync(1);
+      await flush();
+      expect(widget.status()).toBe("error");
+      expect(widget.error()).toBeInstanceOf(WidgetTimeoutError);
+      expect((widget.error() as WidgetTimeoutError).timeoutMs).toBe(5000);
+      expect(onError).toHaveBeenCalledOnce();
+    });
+
+    it("removes the widget when loading finally fails, so a late script cannot render", async () => {
+      mockLoadScript.mockReturnValue(new Promise(() => {}));
+      const onReady = vi.fn();
+
+      const widget = setup({ loadTimeoutMs: 1000, onReady });
+      const root = widgetRootOf(0);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await flush();
+      expect(widget.status()).toBe("error");
+      expect(root.isConnected).toBe(false);
+      expect(host.children).toHaveLength(0);
+
+      // The script arriving late renders into the detached root, which is no longer observed
+      const iframe = document.createElement("iframe");
+      root.appendChild(iframe);
+      await flush();
+      iframe.dispatchEvent(new Event("load"));
+
+      expect(widget.status()).toBe("error");
+      expect(onReady).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("retry", () => {
+    it("does not retry without retry options", async () => {
+      mockLoadScript.mockRejectedValue(new Event("error"));
+
+      setup();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(mockLoadScript).toHaveBeenCalledOnce();
+    });
+
+    it("retries with exponential backoff before reporting the error", async () => {
+      mockLoadScript.mockRejectedValue(new Event("error"));
+      const onRetry = vi.fn();
+      const onError = vi.fn();
+
+      const widget = setup({
+        retry: { attempts: 2, delayMs: 100, jitter: false },
+        onRetry,
+        onError,
+      });
+      await flush();
+
+      expect(onRetry).toHaveBeenLastCalledWith(1, expect.any(WidgetScriptLoadError), 100);
+      expect(widget.status()).toBe("loading");
+
+      await vi.advanceTimersByTimeAsync(100);
+      await flush();
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+      expect(widgetRootOf(0).isConnected).toBe(false);
+      expect(onRetry).toHaveBeenLastCalledWith(2, expect.any(WidgetScriptLoadError), 200);
+
+      await vi.advanceTimersByTimeAsync(200);
+      await flush();
+      expect(mockLoadScript).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(widget.status()).toBe("error");
+      expect(onError).toHaveBeenCalledOnce();
+    });
+
+    it("stops retrying once a load succeeds", async () => {
+      mockLoadScript
+        .mockRejectedValueOnce(new Event("error"))
+        .mockResolvedValueOnce(document.createElement("script"));
+      const onScriptLoad = vi.fn();
+      const onError = vi.fn();
+
+      setup({ retry: { delayMs: 100, jitter: false }, onScriptLoad, onError });
+      await vi.advanceTimersByTimeAsync(100);
+      await flush();
+
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+      expect(onScriptLoad).toHaveBeenCalledOnce();
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("goes back to loading when a retry mounts", async () => {
+      mockLoadScript.mockReturnValue(new Promise(() => {}));
+
+      const widget = setup({ loadTimeoutMs: 1000, retry: { delayMs: 100, jitter: false } });
+
+      // The widget renders before its script reports back, which then times out
+      const iframe = document.createElement("iframe");
+      widgetRootOf(0).appendChild(iframe);
+      await flush();
+      iframe.dispatchEvent(new Event("load"));
+      expect(widget.status()).toBe("ready");
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await flush();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+      expect(widget.status()).toBe("loading");
+    });
+
+    it("caps the delay at maxDelayMs", async () => {
+      mockLoadScript.mockRejectedValue(new Event("error"));
+      const onRetry = vi.fn();
+
+      setup({
+        retry: { attempts: 3, delayMs: 1000, backoffFactor: 10, maxDelayMs: 5000, jitter: false },
+        onRetry,
+      });
+      await vi.advanceTimersByTimeAsync(1000 + 5000);
+      await flush();
+
+      expect(onRetry.mock.calls.map(([, , delayMs]) => delayMs)).toEqual([1000, 5000, 5000]);
+    });
+
+    it("randomizes the delay between half and all of it by default", async () => {
+      const random = vi.spyOn(Math, "random").mockReturnValue(0);
+      mockLoadScript.mockRejectedValue(new Event("error"));
+      const onRetry = vi.fn();
+
+      setup({ retry: {}, onRetry });
+      await flush();
+
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(WidgetScriptLoadError), 500);
+      random.mockRestore();
+    });
+
+    it("retries timeouts like any other failure", async () => {
+      mockLoadScript
+        .mockReturnValueOnce(new Promise(() => {}))
+        .mockResolvedValueOnce(document.createElement("script"));
+      const onRetry = vi.fn();
+
+      setup({ loadTimeoutMs: 1000, retry: { delayMs: 100, jitter: false }, onRetry });
+      await vi.advanceTimersByTimeAsync(1000);
+      await flush();
+
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(WidgetTimeoutError), 100);
+    });
+
+    it("removes a timed out widget before retrying, so a late script cannot render", async () => {
+      mockLoadScript.mockReturnValue(new Promise(() => {}));
+      const onReady = vi.fn();
+
+      const widget = setup({
+        loadTimeoutMs: 1000,
+        retry: { delayMs: 500, jitter: false },
+        onReady,
+      });
+      const root = widgetRootOf(0);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await flush();
+      expect(root.isConnected).toBe(false);
+      expect(host.children).toHaveLength(0);
+
+      // The script arriving late, while the retry is pending, renders into the detached root
+      const iframe = document.createElement("iframe");
+      root.appendChild(iframe);
+      await flush();
+      iframe.dispatchEvent(new Event("load"));
+
+      expect(widget.status()).toBe("loading");
+      expect(onReady).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(widgetRootOf(1).parentElement).toBe(host);
+    });
+  });
+
+  describe("reload", () => {
+    it("loads the widget again after it failed", async () => {
+      mockLoadScript.mockRejectedValueOnce(new Event("error"));
+
+      const widget = setup();
+      await flush();
+      expect(widget.status()).toBe("error");
+
+      widget.reload();
+      expect(widget.status()).toBe("loading");
+      expect(widget.error()).toBeUndefined();
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+    });
+
+    it("replaces a loaded widget", () => {
+      const widget = setup();
+      const root = widgetRootOf(0);
+
+      widget.reload();
+
+      expect(root.isConnected).toBe(false);
+      expect(widgetRootOf(1).parentElement).toBe(host);
+    });
+
+    it("cancels pending retries", async () => {
+      mockLoadScript.mockRejectedValueOnce(new Event("error"));
+
+      const widget = setup({ retry: { delayMs: 1000, jitter: false } });
+      await flush();
+
+      widget.reload();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("rebuilds", () => {
+    it("rebuilds the widget when the configuration changes", () => {
+      const [symbol, setSymbol] = createSignal("NASDAQ:AAPL");
+      setup({ config: () => ({ symbol: symbol() }) });
+      const root = widgetRootOf(0);
+
+      setSymbol("NASDAQ:MSFT");
+
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+      expect(mockLoadScript.mock.calls[1]?.[1]).toEqual({
+        textContent: '{"symbol":"NASDAQ:MSFT"}',
+      });
+      expect(root.isConnected).toBe(false);
+    });
+
+    it("does not rebuild when the configuration serializes the same", () => {
+      const [config, setConfig] = createSignal({ symbol: "NASDAQ:AAPL" });
+      setup({ config });
+
+      setConfig({ symbol: "NASDAQ:AAPL" });
+
+      expect(mockLoadScript).toHaveBeenCalledOnce();
+    });
+
+    it("rebuilds the widget when its size changes", () => {
+      const [height, setHeight] = createSignal<number>(400);
+      setup({ height });
+
+      setHeight(500);
+
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+      expect(widgetRootOf(1).style.height).toBe("500px");
+    });
+
+    it("debounces rebuilds with rebuildDebounceMs, without delaying the first build", async () => {
+      const [symbol, setSymbol] = createSignal("N");
+      setup({ config: () => ({ symbol: symbol() }), rebuildDebounceMs: 300 });
+      expect(mockLoadScript).toHaveBeenCalledOnce();
+
+      setSymbol("NA");
+      await vi.advanceTimersByTimeAsync(200);
+      setSymbol("NAS");
+      await vi.advanceTimersByTimeAsync(299);
+      expect(mockLoadScript).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockLoadScript).toHaveBeenCalledTimes(2);
+      expect(mockLoadScript.mock.calls[1]?.[1]).toEqual({ textContent: '{"symbol":"NAS"}' });
+    });
+  });
+
+  describe("lazy", () => {
+    let intersect: ((entries: { isIntersecting: boolean }[]) => void) | undefined;
+    let rootMargin: string | undefined;
+
+    beforeEach(() => {
+      vi.stubGlobal(
+        "IntersectionObserver",
+        class {
+          constructor(
+            callback: typeof intersect,
+            options: { readonly rootMargin?: string } | undefined,
+          ) {
+            intersect = callback;
+            rootMargin = options?.rootMargin;
+          }
+          observe() {}
+          disconnect() {}
+        },
+      );
+    });
+
+    it("waits until the container comes near the viewport", () => {
+      const widget = setup({ lazy: true });
+
+      expect(widget.status()).toBe("idle");
+      expect(mockLoadScript).not.toHaveBeenCalled();
+      expect(rootMargin).toBe("200px");
+
+      intersect?.([{ isIntersecting: false }]);
+      expect(mockLoadScript).not.toHaveBeenCalled();
+
+      intersect?.([{ isIntersecting: true }]);
+      expect(widget.status()).toBe("loading");
+      expect(mockLoadScript).toHaveBeenCalledOnce();
+    });
+
+    it("uses the given root margin", () => {
+      setup({ lazy: { rootMargin: "400px 0px" } });
+
+      expect(rootMargin).toBe("400px 0px");
+    });
+
+    it("loads immediately without IntersectionObserver", () => {
+      vi.stubGlobal("IntersectionObserver", undefined);
+
+      const widget = setup({ lazy: true });
+
+      expect(widget.status()).toBe("loading");
+      expect(mockLoadScript).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("sizing", () => {
+    let resize:
+      | ((entries: { target: Element; contentRect: DOMRectReadOnly }[]) => void)
+      | undefined;
+    let observed: Element[] = [];
+
+    const resizeTo = (target: Element, width: number, height: number) =>
+      resize?.([{ target, contentRect: { width, height } as DOMRectReadOnly }]);
+
+    beforeEach(() => {
+      observed = [];
+      vi.stubGlobal(
+        "ResizeObserver",
+        class {
+          constructor(callback: typeof resize) {
+            resize = callback;
+          }
+          observe(target: Element) {
+            observed.push(target);
+          }
+          disconnect() {}
+        },
+      );
+    });
+
+    it("applies fixed sizes and height bounds to the container", () => {
+      setup({ width: () => 300, height: () => "full", minHeight: () => 200, maxHeight: () => 600 });
+
+      expect(host.style.width).toBe("300px");
+      expect(host.style.height).toBe("100%");
+      expect(host.style.minHeight).toBe("200px");
+      expect(host.style.maxHeight).toBe("600px");
+      expect(observed).toHaveLength(0);
+    });
+
+    it("tracks the size of the parent for fit", () => {
+      setup({ width: () => "fit", height: () => "fit", maxHeight: () => 500 });
+
+      expect(observed).toEqual([document.body]);
+
+      resizeTo(document.body, 800, 700);
+      expect(host.style.width).toBe("800px");
+      expect(host.style.height).toBe("500px");
+    });
+
+    it("tracks only the dimension that fits its parent", () => {
+      setup({ width: () => "fit", height: () => 400 });
+
+      resizeTo(document.body, 800, 700);
+      expect(host.style.width).toBe("800px");
+      expect(host.style.height).toBe("400px");
+    });
+
+    it("tracks only the height of its parent for a fixed width", () => {
+      setup({ width: () => 300, height: () => "fit" });
+
+      resizeTo(document.body, 800, 700);
+      expect(host.style.width).toBe("300px");
+      expect(host.style.height).toBe("700px");
+    });
+
+    it("fits the width of its parent while keeping the aspect ratio", () => {
+      setup({ width: () => "fit", height: () => "fit", aspectRatio: () => 2 });
+
+      expect(observed).toEqual([document.body, host]);
+
+      resizeTo(document.body, 800, 700);
+      resizeTo(host, 800, 0);
+      expect(host.style.width).toBe("800px");
+      expect(host.style.height).toBe("400px");
+    });
+
+    it("derives the height from the width with aspectRatio", () => {
+      setup({ width: () => "full", height: () => "full", aspectRatio: () => 2 });
+
+      expect(observed).toEqual([host]);
+
+      resizeTo(host, 640, 0);
+      expect(host.style.height).toBe("320px");
+    });
+
+    it("clamps heights derived from aspectRatio", () => {
+      setup({ height: () => "fit", aspectRatio: () => 2, minHeight: () => 300 });
+
+      resizeTo(host, 400, 0);
+      expect(host.style.height).toBe("300px");
+    });
+
+    it("ignores aspectRatio for fixed heights", () => {
+      setup({ height: () => 400, aspectRatio: () => 2 });
+
+      expect(observed).toHaveLength(0);
+      expect(host.style.height).toBe("400px");
+    });
+  });
+});
@@ -0,0 +1,580 @@
+import { loadScript } from "@dschz/load-script";
+import { tryCatch } from "@dschz/try-catch";
+import {
+  type Accessor,
+  createEffect,
+  createMemo,
+  createSignal,
+  onCleanup,
+  untrack,
+} from "solid-js";
+
+import type { Size } from "../types";
+import {
+  WidgetConfigError,
+  WidgetError,
+  type WidgetErrorDetails,
+  WidgetScriptLoadError,
+  WidgetTimeoutError,
+} from "./errors";
+
+/**
+ * Configuration object serialized into the TradingView embed script.
+ */
+export type TradingViewWidgetConfig = Record<string, unknown>;
+
+/**
+ * Loading status of a TradingView widget.
+ * - `idle`: The widget is lazy and waits to scroll into view before loading
+ * - `loading`: The embed script or its iframe is still loading
+ * - `ready`: The widget iframe has loaded
+ * - `error`: The widget failed to initialize
+ */
+export type TradingViewWidgetStatus = "idle" | "loading" | "ready" | "error";
+
+/**
+ * Reactive state and controls returned by the createTradingViewWidget primitive.
+ * Widgets hand it to their `ref` so the widget can be reloaded on demand.
+ */
+export type TradingViewWidgetController = {
+  /** Current loading status of the widget */
+  readonly status: Accessor<TradingViewWidgetStatus>;
+
+  /** The error that made the widget fail, if any */
+  readonly error: Accessor<WidgetError | undefined>;
+
+  /** Removes the current widget and loads it again, starting over any retry attempts */
+  readonly reload: () => void;
+};
+
+/**
+ * Controls how failed script loads are retried.
+ *
+ * The delay before retry `n` is `delayMs * backoffFactor ** (n - 1)`, capped at
+ * `maxDelayMs`. With `jitter` enabled the delay is randomized between half and all of
+ * that value, so widgets that failed together do not retry in lockstep.
+ *
+ * @example
+ * ```tsx
+ * retry={{ attempts: 5, delayMs: 500, backoffFactor: 2, jitter: true }}
+ * ```
+ */
+export type WidgetRetryOptions = {
+  /**
+   * Number of retries after the first failed load.
+   * @default 3
+   */
+  readonly attempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds.
+   * @default 1000
+   */
+  readonly delayMs?: number;
+
+  /**
+   * Multiplier applied to the delay after each retry.
+   * @default 2
+   */
+  readonly backoffFactor?: number;
+
+  /**
+   * Upper bound for the delay between retries, in milliseconds.
+   * @default 30000
+   */
+  readonly maxDelayMs?: number;
+
+  /**
+   * Whether to randomize the delay between retries.
+   * @default true
+   */
+  readonly jitter?: boolean;
+};
+
+/**
+ * Controls when a lazy widget starts loading.
+ *
+ * @example
+ * ```tsx
+ * lazy={{ rootMargin: "400px 0px" }}
+ * ```
+ */
+export type WidgetLazyOptions = {
+  /**
+   * Margin around the viewport within which the widget starts loading, using the syntax of
+   * the CSS `margin` property. Positive values load the widget before it becomes visible.
+   * @default "200px"
+   */
+  readonly rootMargin?: string;
+};
+
+/**
+ * Options for the createTradingViewWidget primitive.
+ */
+export type CreateTradingViewWidgetOptions = {
+  /**
+   * Name of the widget, reported on the errors it raises.
+   * @default "TradingViewWidget"
+   */
+  readonly widgetName?: string;
+
+  /**
+   * URL of the TradingView embed script that renders the widget.
+   *
+   * @example
+   * ```ts
+   * scriptSrc: "https://s3.tradingview.com/external-embedding/embed-widget-forex-cross-rates.js"
+   * ```
+   */
+  readonly scriptSrc: string;
+
+  /**
+   * Reactive accessor returning the widget configuration.
+   * The widget is rebuilt whenever the configuration it returns changes.
+   */
+  readonly config: Accessor<TradingViewWidgetConfig>;
+
+  /**
+   * Reactive accessor for the width of the container, in pixels, "full" for 100%, or "fit"
+   * for the measured width of its parent element.
+   * When omitted or returning `undefined`, no width is applied.
+   */
+  readonly width?: Accessor<Size | undefined>;
+
+  /**
+   * Reactive accessor for the height of the container, in pixels, "full" for 100%, or "fit"
+   * for the measured height of its parent element.
+   * When omitted or returning `undefined`, no height is applied.
+   */
+  readonly height?: Accessor<Size | undefined>;
+
+  /**
+   * Reactive accessor for the width-to-height ratio of the container, e.g. `16 / 9`.
+   * Applies when the height is "full" or "fit", and derives the height from the measured
+   * width of the container instead.
+   */
+  readonly aspectRatio?: Accessor<number | undefined>;
+
+  /**
+   * Reactive accessor for the minimum height of the container, in pixels.
+   */
+  readonly minHeight?: Accessor<number | undefined>;
+
+  /**
+   * Reactive accessor for the maximum height of the container, in pixels.
+   */
+  readonly maxHeight?: Accessor<number | undefined>;
+
+  /**
+   * How failed script loads are retried. When omitted, a failed load is not retried.
+   */
+  readonly retry?: WidgetRetryOptions;
+
+  /**
+   * Time allowed for the embed script to load, in milliseconds, before the attempt fails
+   * with a {@link WidgetTimeoutError}. When omitted, the script load never times out.
+   */
+  readonly loadTimeoutMs?: number;
+
+  /**
+   * Whether to wait until the container scrolls into view before loading the embed script.
+   * Pass an object to configure how close to the viewport loading starts.
+   * @default false
+   */
+  readonly lazy?: boolean | WidgetLazyOptions;
+
+  /**
+   * Time to wait after the configuration or size last changed before rebuilding the
+   * widget, in milliseconds. Rapid changes, such as typing a symbol, then cause a single
+   * rebuild. The first build is never delayed.
+   * @default 0
+   */
+  readonly rebuildDebounceMs?: number;
+
+  /**
+   * Callback function called when an error occurs during widget initialization,
+   * once every retry attempt has failed.
+   * @param error The error that occurred, one of the {@link WidgetError} subclasses
+   */
+  readonly onError?: (error: WidgetError) => void;
+
+  /**
+   * Callback function called each time a failed load is about to be retried.
+   * @param attempt The retry attempt number, starting at 1
+   * @param error The error that made the previous attempt fail
+   * @param delayMs The delay before the retry, in milliseconds
+   */
+  readonly onRetry?: (attempt: number, error: WidgetError, delayMs: number) => void;
+
+  /**
+   * Callback function called once the embed script has been downloaded and executed.
+   */
+  readonly onScriptLoad?: () => void;
+
+  /**
+   * Callback function called when the iframe injected by the embed script has loaded.
+   */
+  readonly onReady?: () => void;
+};
+
+/**
+ * Converts a widget size to a CSS length. "fit" starts out at 100% until it is measured.
+ * @internal
+ */
+export const toCssSize = (size: Size) => (typeof size === "number" ? `${size}px` : "100%");
+
+/**
+ * Converts a widget size to the value expected in a TradingView configuration.
+ * @internal
+ */
+export const toConfigSize = (size: Size) => (typeof size === "number" ? size : "100%");
+
+/**
+ * Clamps a measured height between optional bounds.
+ * @internal
+ */
+export const clampHeight = (height: number, minHeight?: number, maxHeight?: number) =>
+  Math.min(maxHeight ?? Infinity, Math.max(minHeight ?? 0, height));
+
+/**
+ * Everything a widget is built from. A new build is only started when one of these changes.
+ * @internal
+ */
+type WidgetBuild = {
+  readonly widgetName: string;
+  readonly scriptSrc: string;
+  readonly width: Size | undefined;
+  readonly height: Size | undefined;
+  /** The serialized configuration, unless serializing it failed with `configError` */
+  readonly config?: string;
+  readonly configError?: unknown;
+};
+
+/**
+ * Whether two builds would render the same widget.
+ * @internal
+ */
+const isSameBuild = (previous: WidgetBuild, next: WidgetBuild) =>
+  previous.configError === undefined &&
+  next.configError === undefined &&
+  previous.widgetName === next.widgetName &&
+  previous.scriptSrc === next.scriptSrc &&
+  previous.width === next.width &&
+  previous.height === next.height &&
+  previous.config === next.config;
+
+/**
+ * Computes the delay before the given retry attempt.
+ * @internal
+ */
+const getRetryDelay = (retry: WidgetRetryOptions, attempt: number) => {
+  const { delayMs = 1000, backoffFactor = 2, maxDelayMs = 30_000, jitter = true } = retry;
+
+  const delay = Math.min(maxDelayMs, delayMs * backoffFactor ** (attempt - 1));
+  return jitter ? Math.round(delay / 2 + (Math.random() * delay) / 2) : delay;
+};
+
+/**
+ * Rejects with a {@link WidgetTimeoutError} if `promise` does not settle within `timeoutMs`.
+ * @internal
+ */
+const withTimeout = <T>(promise: Promise<T>, details: WidgetErrorDetails, timeoutMs?: number) => {
+  if (timeoutMs === undefined) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new WidgetTimeoutError(details, timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Calls `onLoad` once the first iframe rendered inside `root` has loaded.
+ * Returns a function that stops observing.
+ * @internal
+ */
+const observeIframeLoad = (root: HTMLElement, onLoad: () => void) => {
+  let iframe: HTMLIFrameElement | null = null;
+
+  const attach = () => {
+    if (iframe) return;
+
+    iframe = root.querySelector("iframe");
+    if (!iframe) return;
+
+    iframe.addEventListener("load", onLoad, { once: true });
+    observer.disconnect();
+  };
+
+  const observer = new MutationObserver(attach);
+  observer.observe(root, { childList: true, subtree: true });
+  attach();
+
+  return () => {
+    observer.disconnect();
+    iframe?.removeEventListener("load", onLoad);
+  };
+};
+
+/**
+ * Mounts a TradingView embed script into a container element.
+ *
+ * This is the lifecycle shared by every widget in this library: a
+ * `tradingview-widget-container__widget` element is appended to the container, sized, and
+ * handed to the embed script along with the JSON configuration. Whenever the container,
+ * sizes or serialized configuration change, the previous widget is removed and a fresh one
+ * is loaded, optionally debounced with `rebuildDebounceMs`. With `lazy`, nothing is loaded
+ * until the container comes near the viewport.
+ *
+ * Use it to wrap TradingView widgets that this library does not provide a component for.
+ *
+ * @param container Accessor returning the element that hosts the widget
+ * @param options Script URL, reactive configuration, sizing, retries and callbacks
+ * @returns The loading status and error of the widget, and a function to reload it
+ *
+ * @example
+ * ```tsx
+ * const CustomWidget = (props: { symbol: string }) => {
+ *   let container!: HTMLDivElement;
+ *
+ *   createTradingViewWidget(() => container, {
+ *     scriptSrc: "https://s3.tradingview.com/external-embedding/embed-widget-single-quote.js",
+ *     config: () => ({ symbol: props.symbol, width: "100%" }),
+ *     width: () => "full",
+ *     retry: { attempts: 3 },
+ *   });
+ *
+ *   return <div class="tradingview-widget-container" ref={container} />;
+ * };
+ * ```
+ */
+export const createTradingViewWidget = (
+  container: Accessor<HTMLElement | undefined>,
+  options: CreateTradingViewWidgetOptions,
+): TradingViewWidgetController => {
+  const [status, setStatus] = createSignal<TradingViewWidgetStatus>("loading");
+  const [error, setError] = createSignal<WidgetError>();
+
+  const fail = (error: WidgetError) => {
+    setError(error);
+    setStatus("error");
+    options.onError?.(error);
+  };
+
+  const [version, setVersion] = createSignal(0);
+  const [inView, setInView] = createSignal(false);
+
+  // Lazy widgets load once their container first comes near the viewport, and stay loaded
+  createEffect(() => {
+    const host = container();
+    const lazy = options.lazy;
+    if (!host || !lazy || inView()) return;
+
+    if (typeof IntersectionObserver === "undefined") {
+      setInView(true);
+      return;
+    }
+
+    const { rootMargin = "200px" } = lazy === true ? {} : lazy;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setInView(true);
+      },
+      { rootMargin },
+    );
+    observer.observe(host);
+
+    onCleanup(() => observer.disconnect());
+  });
+
+  // Sizes the container, measuring its parent for "fit" and itself for `aspectRatio`. Only
+  // `aspectRatio` works in auto-height parents, as "fit" would measure the widget itself
+  createEffect(() => {
+    const host = container();
+    if (!host) return;
+
+    const width = options.width?.();
+    const height = options.height?.();
+    const aspectRatio = options.aspectRatio?.();
+    const minHeight = options.minHeight?.();
+    const maxHeight = options.maxHeight?.();
+
+    if (width !== undefined) host.style.width = toCssSize(width);
+    if (height !== undefined) host.style.height = toCssSize(height);
+    host.style.minHeight = minHeight !== undefined ? `${minHeight}px` : "";
+    host.style.maxHeight = maxHeight !== undefined ? `${maxHeight}px` : "";
+
+    const keepsRatio = aspectRatio !== undefined && (height === "full" || height === "fit");
+    const parent = host.parentElement;
+    const fitsParent = !!parent && (width === "fit" || (height === "fit" && !keepsRatio));
+
+    if ((!keepsRatio && !fitsParent) || typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver((entries) => {
+      for (const { target, contentRect } of entries) {
+        if (target === parent) {
+          if (width === "fit") host.style.width = `${contentRect.width}px`;
+          if (height === "fit" && !keepsRatio) {
+            host.style.height = `${clampHeight(contentRect.height, minHeight, maxHeight)}px`;
+          }
+        } else if (keepsRatio) {
+          const ratioHeight = contentRect.width / aspectRatio;
+          host.style.height = `${clampHeight(ratioHeight, minHeight, maxHeight)}px`;
+        }
+      }
+    });
+
+    if (fitsParent) observer.observe(parent);
+    if (keepsRatio) observer.observe(host);
+
+    onCleanup(() => observer.disconnect());
+  });
+
+  const idle = createMemo(() => !!options.lazy && !inView());
+
+  // Reactive changes that serialize to the same configuration do not rebuild the widget
+  const nextBuild = createMemo(
+    (): WidgetBuild => {
+      const build = {
+        widgetName: options.widgetName ?? "TradingViewWidget",
+        scriptSrc: options.scriptSrc,
+        width: options.width?.(),
+        height: options.height?.(),
+      };
+
+      try {
+        return { ...build, config: JSON.stringify(options.config()) };
+      } catch (configError) {
+        return { ...build, configError };
+      }
+    },
+    undefined,
+    { equals: isSameBuild },
+  );
+
+  const [build, setBuild] = createSignal<WidgetBuild>();
+
+  createEffect(() => {
+    const next = nextBuild();
+    const debounceMs = options.rebuildDebounceMs;
+
+    if (!debounceMs || untrack(build) === undefined) {
+      setBuild(next);
+      return;
+    }
+
+    const timer = setTimeout(() => setBuild(next), debounceMs);
+    onCleanup(() => clearTimeout(timer));
+  });
+
+  // Effects do not run on the server and only run after hydration on the client, so the
+  // embed script is never loaded before the server-rendered markup has been adopted
+  createEffect(() => {
+    const host = container();
+    const current = build();
+    if (!host || !current) return;
+
+    // Tracked so that `reload` rebuilds the widget
+    version();
+
+    setError(undefined);
+
+    const { widgetName, scriptSrc, width, height } = current;
+
+    if (idle()) {
+      setStatus("idle");
+      return;
+    }
+
+    setStatus("loading");
+
+    // Retry and timeout settings apply from the next build rather than restarting this one
+    const retry = untrack(() => options.retry);
+    const loadTimeoutMs = untrack(() => options.loadTimeoutMs);
+
+    if (current.config === undefined) {
+      fail(new WidgetConfigError({ widgetName, scriptSrc, cause: current.configError }));
+      return;
+    }
+
+    const textContent = current.config;
+    const details: WidgetErrorDetails = { widgetName, scriptSrc, config: textContent };
+
+    // Callbacks from a widget that has since been rebuilt or unmounted are ignored
+    let disposed = false;
+    let widgetRoot: HTMLDivElement | undefined;
+    let stopObserving = () => {};
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unmount = () => {
+      stopObserving();
+      widgetRoot?.remove();
+    };
+
+    const mount = (attempt: number) => {
+      const root = document.createElement("div");
+      root.classList.add("tradingview-widget-container__widget");
+      if (width !== undefined) root.style.width = toCssSize(width);
+      if (height !== undefined) root.style.height = toCssSize(height);
+      host.appendChild(root);
+      widgetRoot = root;
+
+      stopObserving = observeIframeLoad(root, () => {
+        if (disposed) return;
+
+        setStatus("ready");
+        options.onReady?.();
+      });
+
+      const downloadScript = async () => {
+        const [cause] = await tryCatch(
+          withTimeout(loadScript(scriptSrc, { textContent }, root), details, loadTimeoutMs),
+        );
+        if (disposed) return;
+
+        if (!cause) {
+          options.onScriptLoad?.();
+          return;
+        }
+
+        const error =
+          cause instanceof WidgetError ? cause : new WidgetScriptLoadError({ ...details, cause });
+
+        // Removes the pending script along with the widget, so that a script arriving after
+        // a timeout cannot render a widget that has already failed, or that a retry replaces
+        unmount();
+
+        if (retry && attempt < (retry.attempts ?? 3)) {
+          const nextAttempt = attempt + 1;
+          const delayMs = getRetryDelay(retry, nextAttempt);
+
+          options.onRetry?.(nextAttempt, error, delayMs);
+          retryTimer = setTimeout(() => {
+            setStatus("loading");
+            mount(nextAttempt);
+          }, delayMs);
+          return;
+        }
+
+        fail(error);
+      };
+
+      void downloadScript();
+    };
+
+    mount(0);
+
+    onCleanup(() => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      unmount();
+    });
+  });
+
+  return {
+    status,
+    error,
+    reload: () => setVersion((value) => value + 1),
+  };
+};
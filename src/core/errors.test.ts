@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  WidgetConfigError,
+  WidgetError,
+  WidgetScriptLoadError,
+  WidgetTimeoutError,
+} from "./errors";
+
+const DETAILS = {
+  widgetName: "MiniChart",
+  scriptSrc: "https://s3.tradingview.com/external-embedding/embed-widget-mini-symbol-overview.js",
+  config: '{"symbol":"NASDAQ:AAPL"}',
+};
+
+describe("WidgetError", () => {
+  it("exposes the widget details and cause", () => {
+    const cause = new Event("error");
+    const error = new WidgetError("failed", { ...DETAILS, cause });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("WidgetError");
+    expect(error.message).toBe("failed");
+    expect(error.widgetName).toBe("MiniChart");
+    expect(error.scriptSrc).toBe(DETAILS.scriptSrc);
+    expect(error.config).toBe(DETAILS.config);
+    expect(error.cause).toBe(cause);
+  });
+
+  it("leaves the config undefined when it could not be serialized", () => {
+    const error = new WidgetError("failed", { widgetName: "MiniChart", scriptSrc: "a.js" });
+
+    expect(error.config).toBeUndefined();
+    expect(error.cause).toBeUndefined();
+  });
+});
+
+describe("WidgetScriptLoadError", () => {
+  it("names the script that failed to load", () => {
+    const error = new WidgetScriptLoadError(DETAILS);
+
+    expect(error).toBeInstanceOf(WidgetError);
+    expect(error.name).toBe("WidgetScriptLoadError");
+    expect(error.message).toBe(
+      `MiniChart: failed to load TradingView embed script "${DETAILS.scriptSrc}"`,
+    );
+  });
+});
+
+describe("WidgetConfigError", () => {
+  it("reports an invalid configuration", () => {
+    const cause = new TypeError("Converting circular structure to JSON");
+    const error = new WidgetConfigError({ ...DETAILS, config: undefined, cause });
+
+    expect(error).toBeInstanceOf(WidgetError);
+    expect(error.name).toBe("WidgetConfigError");
+    expect(error.message).toBe("MiniChart: invalid widget configuration");
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("WidgetTimeoutError", () => {
+  it("reports the timeout that elapsed", () => {
+    const error = new WidgetTimeoutError(DETAILS, 5000);
+
+    expect(error).toBeInstanceOf(WidgetError);
+    expect(error.name).toBe("WidgetTimeoutError");
+    expect(error.timeoutMs).toBe(5000);
+    expect(error.message).toBe(
+      `MiniChart: TradingView embed script "${DETAILS.scriptSrc}" did not load within 5000ms`,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Context attached to every widget error.
+ */
+export type WidgetErrorDetails = {
+  /** Name of the widget component that failed, e.g. "AdvancedChart" */
+  readonly widgetName: string;
+
+  /** URL of the TradingView embed script */
+  readonly scriptSrc: string;
+
+  /** The JSON configuration handed to the embed script, when it could be serialized */
+  readonly config?: string;
+
+  /** The underlying error or event that caused the failure */
+  readonly cause?: unknown;
+};
+
+/**
+ * Base class of every error reported through a widget's `onError`.
+ *
+ * Use `instanceof` on the subclasses to tell failures apart:
+ * - {@link WidgetScriptLoadError}: The embed script could not be downloaded or executed
+ * - {@link WidgetConfigError}: The widget configuration could not be built or serialized
+ * - {@link WidgetTimeoutError}: The embed script did not load within `loadTimeoutMs`
+ *
+ * @example
+ * ```tsx
+ * <AdvancedChart
+ *   symbol="NASDAQ:AAPL"
+ *   onError={(error) => {
+ *     if (error instanceof WidgetError) {
+ *       report(error.widgetName, error.scriptSrc, error.config);
+ *     }
+ *   }}
+ * />
+ * ```
+ */
+export class WidgetError extends Error {
+  /** Name of the widget component that failed */
+  readonly widgetName: string;
+
+  /** URL of the TradingView embed script */
+  readonly scriptSrc: string;
+
+  /** The JSON configuration handed to the embed script, when it could be serialized */
+  readonly config: string | undefined;
+
+  constructor(message: string, details: WidgetErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = "WidgetError";
+    this.widgetName = details.widgetName;
+    this.scriptSrc = details.scriptSrc;
+    this.config = details.config;
+  }
+}
+
+/**
+ * Error raised when a TradingView embed script fails to load, for example because of a
+ * network failure, an ad blocker or a Content Security Policy. The browser does not say
+ * which, but the original error event is available as `cause`.
+ */
+export class WidgetScriptLoadError extends WidgetError {
+  constructor(details: WidgetErrorDetails) {
+    super(
+      `${details.widgetName}: failed to load TradingView embed script "${details.scriptSrc}"`,
+      details,
+    );
+    this.name = "WidgetScriptLoadError";
+  }
+}
+
+/**
+ * Error raised when the configuration of a widget cannot be built or serialized to JSON,
+ * for example because it contains a circular reference or a `BigInt`. Retrying does not
+ * help, so these errors are reported immediately.
+ */
+export class WidgetConfigError extends WidgetError {
+  constructor(details: WidgetErrorDetails) {
+    super(`${details.widgetName}: invalid widget configuration`, details);
+    this.name = "WidgetConfigError";
+  }
+}
+
+/**
+ * Error raised when a TradingView embed script does not finish loading within the
+ * widget's `loadTimeoutMs`.
+ *
+ * @example
+ * ```tsx
+ * <AdvancedChart
+ *   loadTimeoutMs={10_000}
+ *   onError={(error) => {
+ *     if (error instanceof WidgetTimeoutError) showOfflineBanner();
+ *   }}
+ * />
+ * ```
+ */
+export class WidgetTimeoutError extends WidgetError {
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(details: WidgetErrorDetails, timeoutMs: number) {
+    super(
+      `${details.widgetName}: TradingView embed script "${details.scriptSrc}" did not load within ${timeoutMs}ms`,
+      details,
+    );
+    this.name = "WidgetTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
@@ -0,0 +1,106 @@
+import { createRoot } from "solid-js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createParentWidth, resolveResponsive } from "./responsive";
+
+describe("resolveResponsive", () => {
+  it("returns plain values as they are", () => {
+    expect(resolveResponsive(400, 1000)).toBe(400);
+    expect(resolveResponsive("full", undefined)).toBe("full");
+  });
+
+  it("returns the base value while the width is unknown", () => {
+    expect(resolveResponsive({ base: 300, md: 500 }, undefined)).toBe(300);
+  });
+
+  it("picks the largest breakpoint that fits in the width", () => {
+    const value = { base: "compact", md: "regular", xl: "adaptive" };
+
+    expect(resolveResponsive(value, 320)).toBe("compact");
+    expect(resolveResponsive(value, 768)).toBe("regular");
+    expect(resolveResponsive(value, 1279)).toBe("regular");
+    expect(resolveResponsive(value, 1280)).toBe("adaptive");
+  });
+
+  it("skips breakpoints that are not set", () => {
+    expect(resolveResponsive({ base: 1, sm: 2 }, 2000)).toBe(2);
+  });
+
+  it("uses custom breakpoints, keeping the defaults of unset ones", () => {
+    const value = { base: 1, sm: 2, lg: 3 };
+    const breakpoints = { sm: 300 };
+
+    expect(resolveResponsive(value, 300, breakpoints)).toBe(2);
+    expect(resolveResponsive(value, 1023, breakpoints)).toBe(2);
+    expect(resolveResponsive(value, 1024, breakpoints)).toBe(3);
+  });
+
+  it("keeps falsy breakpoint values", () => {
+    expect(resolveResponsive({ base: true, md: false }, 800)).toBe(false);
+  });
+});
+
+describe("createParentWidth", () => {
+  let resize: ((entries: { contentRect: { width: number } }[]) => void) | undefined;
+  const disconnect = vi.fn();
+
+  class MockResizeObserver {
+    constructor(callback: typeof resize) {
+      resize = callback;
+    }
+    observe() {}
+    disconnect = disconnect;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    resize = undefined;
+    disconnect.mockClear();
+  });
+
+  const createParent = (clientWidth: number) => {
+    const parent = document.createElement("div");
+    parent.style.padding = "0 10px";
+    Object.defineProperty(parent, "clientWidth", { value: clientWidth });
+
+    const element = document.createElement("div");
+    parent.appendChild(element);
+
+    return element;
+  };
+
+  it("measures the content width of the parent", () => {
+    const element = createParent(500);
+
+    const [width, dispose] = createRoot(
+      (dispose) => [createParentWidth(() => element), dispose] as const,
+    );
+
+    expect(width()).toBe(480);
+    dispose();
+  });
+
+  it("tracks resizes of the parent", () => {
+    vi.stubGlobal("ResizeObserver", MockResizeObserver);
+    const element = createParent(500);
+
+    const [width, dispose] = createRoot(
+      (dispose) => [createParentWidth(() => element), dispose] as const,
+    );
+
+    resize?.([{ contentRect: { width: 900 } }]);
+    expect(width()).toBe(900);
+
+    dispose();
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it("stays unknown without a parent", () => {
+    const [width, dispose] = createRoot(
+      (dispose) => [createParentWidth(() => document.createElement("div")), dispose] as const,
+    );
+
+    expect(width()).toBeUndefined();
+    dispose();
+  });
+});
@@ -0,0 +1,78 @@
+import { type Accessor, createEffect, createSignal, onCleanup } from "solid-js";
+
+import type { Breakpoint, Responsive } from "../types";
+
+/**
+ * Resolves a {@link Responsive} value to the value for the current width.
+ */
+export type ResponsiveResolver = <T>(value: Responsive<T>) => T;
+
+/**
+ * Widths at which responsive values change, in pixels.
+ */
+export const DEFAULT_BREAKPOINTS: Readonly<Record<Breakpoint, number>> = {
+  sm: 480,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+};
+
+const BREAKPOINTS_DESCENDING: readonly Breakpoint[] = ["xl", "lg", "md", "sm"];
+
+type ResponsiveObject<T> = { readonly base: T } & { readonly [K in Breakpoint]?: T };
+
+const isResponsiveObject = <T>(value: Responsive<T>): value is ResponsiveObject<T> =>
+  typeof value === "object" && value !== null && "base" in value;
+
+/**
+ * Picks the value of the largest breakpoint that fits in `width`, or `base` when none does
+ * or the width is not known yet, as is the case during server rendering.
+ * @internal
+ */
+export const resolveResponsive = <T>(
+  value: Responsive<T>,
+  width: number | undefined,
+  breakpoints: Partial<Record<Breakpoint, number>> = {},
+): T => {
+  if (!isResponsiveObject(value)) return value;
+  if (width === undefined) return value.base;
+
+  for (const breakpoint of BREAKPOINTS_DESCENDING) {
+    const minWidth = breakpoints[breakpoint] ?? DEFAULT_BREAKPOINTS[breakpoint];
+    const breakpointValue = value[breakpoint];
+
+    if (breakpointValue !== undefined && width >= minWidth) return breakpointValue;
+  }
+
+  return value.base;
+};
+
+/**
+ * Tracks the content width of the parent of `element` with a `ResizeObserver`.
+ *
+ * The parent is measured rather than the element itself, since widgets hide their
+ * container while a fallback is shown.
+ * @internal
+ */
+export const createParentWidth = (
+  element: Accessor<HTMLElement | undefined>,
+): Accessor<number | undefined> => {
+  const [width, setWidth] = createSignal<number>();
+
+  createEffect(() => {
+    const parent = element()?.parentElement;
+    if (!parent) return;
+
+    const style = getComputedStyle(parent);
+    setWidth(parent.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight));
+
+    if (typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry?.contentRect.width));
+    observer.observe(parent);
+
+    onCleanup(() => observer.disconnect());
+  });
+
+  return width;
+};
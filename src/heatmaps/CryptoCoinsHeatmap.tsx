@@ -0,0 +1,229 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type {
+  ColorTheme,
+  HeatmapBlockColor,
+  HeatmapBlockSize,
+  Locale,
+  Responsive,
+  Size,
+} from "../types";
+
+/**
+ * Coin sets that can be displayed in the CryptoCoinsHeatmap widget.
+ *
+ * - `Crypto`: All major cryptocurrencies ranked by market cap
+ * - `CryptoWithoutBTC`: All major cryptocurrencies excluding Bitcoin, so its dominance
+ *   does not dwarf the rest of the market
+ * - `CryptoWithoutStable`: All major cryptocurrencies excluding stablecoins
+ * - `CryptoDeFi`: Decentralized finance tokens
+ *
+ * @example
+ * ```tsx
+ * <CryptoCoinsHeatmap dataSource="Crypto" /> // Whole crypto market
+ * <CryptoCoinsHeatmap dataSource="CryptoWithoutBTC" /> // Altcoins only
+ * ```
+ */
+export type CryptoCoinsHeatmapDataSource =
+  | "Crypto"
+  | "CryptoWithoutBTC"
+  | "CryptoWithoutStable"
+  | "CryptoDeFi";
+
+/**
+ * Maps shared block size values to TradingView's internal crypto field IDs.
+ * @internal
+ */
+const BlockSizeMap: Record<HeatmapBlockSize, string> = {
+  marketCap: "market_cap_calc",
+  volume: "24h_vol_cmc",
+};
+
+/**
+ * Maps shared block color values to TradingView's internal crypto field IDs.
+ * @internal
+ */
+const BlockColorMap: Record<HeatmapBlockColor, string> = {
+  dailyChange: "24h_close_change|5",
+  hourlyChange: "change|60",
+  fourHourChange: "change|240",
+  weeklyPerformance: "Perf.W",
+  monthlyPerformance: "Perf.1M",
+  threeMonthPerformance: "Perf.3M",
+  sixMonthPerformance: "Perf.6M",
+  ytdPerformance: "Perf.YTD",
+  yearlyPerformance: "Perf.Y",
+  volatility: "Volatility.D",
+};
+
+/**
+ * Props for the CryptoCoinsHeatmap component.
+ */
+export type CryptoCoinsHeatmapProps = SizedWidgetProps & {
+  /**
+   * The set of coins displayed in the heatmap.
+   * @default "Crypto"
+   */
+  readonly dataSource?: CryptoCoinsHeatmapDataSource;
+
+  /**
+   * Metric used to size each block.
+   * @default "marketCap"
+   */
+  readonly blockSize?: HeatmapBlockSize;
+
+  /**
+   * Metric used to color each block.
+   * @default "dailyChange"
+   */
+  readonly blockColor?: HeatmapBlockColor;
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   * @default "full"
+   */
+  readonly height?: Responsive<Size>;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Whether to show the top bar with the data source and metric selectors.
+   * @default false
+   */
+  readonly hasTopBar?: boolean;
+
+  /**
+   * Whether users can change the data source from the top bar.
+   * Only has an effect when `hasTopBar` is enabled.
+   * @default false
+   */
+  readonly isDataSetEnabled?: boolean;
+
+  /**
+   * Whether users can zoom into the heatmap.
+   * @default true
+   */
+  readonly isZoomEnabled?: boolean;
+
+  /**
+   * Whether to show a tooltip with coin details when hovering a block.
+   * @default true
+   */
+  readonly hasSymbolTooltip?: boolean;
+
+  /**
+   * Whether to render every block with the same size, ignoring `blockSize`.
+   * @default false
+   */
+  readonly isMonoSize?: boolean;
+};
+
+/**
+ * TradingView CryptoCoinsHeatmap widget for visualizing the cryptocurrency market.
+ *
+ * Renders the largest cryptocurrencies as blocks, sized by market cap or volume and
+ * colored by price performance. Complements the `CryptoMarket` screener table with a
+ * visual snapshot of where money is flowing across the crypto market.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/heatmaps/crypto-heatmap/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <CryptoCoinsHeatmap />
+ * ```
+ *
+ * @example
+ * Altcoins sized by volume and colored by weekly performance:
+ * ```tsx
+ * <CryptoCoinsHeatmap
+ *   dataSource="CryptoWithoutBTC"
+ *   blockSize="volume"
+ *   blockColor="weeklyPerformance"
+ *   colorTheme="dark"
+ *   hasTopBar
+ * />
+ * ```
+ */
+export const CryptoCoinsHeatmap = (props: CryptoCoinsHeatmapProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      dataSource: "Crypto" as CryptoCoinsHeatmapDataSource,
+      blockSize: "marketCap" as HeatmapBlockSize,
+      blockColor: "dailyChange" as HeatmapBlockColor,
+
+      hasTopBar: false,
+      isDataSetEnabled: false,
+      isZoomEnabled: true,
+      hasSymbolTooltip: true,
+      isMonoSize: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="CryptoCoinsHeatmap"
+      scriptSrc="embed-widget-crypto-coins-heatmap.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        dataSource: _props.dataSource,
+        blockSize: BlockSizeMap[_props.blockSize],
+        blockColor: BlockColorMap[_props.blockColor],
+        hasTopBar: _props.hasTopBar,
+        isDataSetEnabled: _props.isDataSetEnabled,
+        isZoomEnabled: _props.isZoomEnabled,
+        hasSymbolTooltip: _props.hasSymbolTooltip,
+        isMonoSize: _props.isMonoSize,
+      })}
+    />
+  );
+};
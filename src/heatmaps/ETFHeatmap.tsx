@@ -0,0 +1,247 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, HeatmapBlockColor, Locale, Responsive, Size } from "../types";
+
+/**
+ * ETF universes that can be displayed in the ETFHeatmap widget.
+ * - `AllUSEtf`: All ETFs listed on US exchanges
+ *
+ * @example
+ * ```tsx
+ * <ETFHeatmap dataSource="AllUSEtf" /> // Every US listed ETF
+ * ```
+ */
+export type ETFHeatmapDataSource = "AllUSEtf";
+
+/**
+ * Metrics used to size the blocks of the ETFHeatmap.
+ * - `aum`: Assets under management
+ * - `volume`: Trading volume
+ * - `valueTraded`: Volume multiplied by price
+ *
+ * @example
+ * ```tsx
+ * <ETFHeatmap blockSize="aum" /> // Largest funds get the biggest blocks
+ * <ETFHeatmap blockSize="volume" /> // Most traded funds stand out
+ * ```
+ */
+export type ETFHeatmapBlockSize = "aum" | "volume" | "valueTraded";
+
+/**
+ * How the blocks of the ETFHeatmap are grouped.
+ * - `asset_class`: Group funds by asset class (equity, fixed income, commodities, ...)
+ * - `no_group`: Display all funds in a single group
+ */
+export type ETFHeatmapGrouping = "asset_class" | "no_group";
+
+/**
+ * Maps block size values to TradingView's internal field IDs.
+ * @internal
+ */
+const BlockSizeMap: Record<ETFHeatmapBlockSize, string> = {
+  aum: "aum",
+  volume: "volume",
+  valueTraded: "Value.Traded",
+};
+
+/**
+ * Maps shared block color values to TradingView's internal field IDs.
+ * @internal
+ */
+const BlockColorMap: Record<HeatmapBlockColor, string> = {
+  dailyChange: "change",
+  hourlyChange: "change|60",
+  fourHourChange: "change|240",
+  weeklyPerformance: "Perf.W",
+  monthlyPerformance: "Perf.1M",
+  threeMonthPerformance: "Perf.3M",
+  sixMonthPerformance: "Perf.6M",
+  ytdPerformance: "Perf.YTD",
+  yearlyPerformance: "Perf.Y",
+  volatility: "Volatility.D",
+};
+
+/**
+ * Props for the ETFHeatmap component.
+ */
+export type ETFHeatmapProps = SizedWidgetProps & {
+  /**
+   * The universe of ETFs displayed in the heatmap.
+   * @default "AllUSEtf"
+   */
+  readonly dataSource?: ETFHeatmapDataSource;
+
+  /**
+   * Metric used to size each block.
+   * @default "volume"
+   */
+  readonly blockSize?: ETFHeatmapBlockSize;
+
+  /**
+   * Metric used to color each block.
+   * @default "dailyChange"
+   */
+  readonly blockColor?: HeatmapBlockColor;
+
+  /**
+   * How blocks are grouped in the heatmap.
+   * @default "asset_class"
+   */
+  readonly grouping?: ETFHeatmapGrouping;
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   * @default "full"
+   */
+  readonly height?: Responsive<Size>;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Whether to show the top bar with the data source and metric selectors.
+   * @default false
+   */
+  readonly hasTopBar?: boolean;
+
+  /**
+   * Whether users can change the data source from the top bar.
+   * Only has an effect when `hasTopBar` is enabled.
+   * @default false
+   */
+  readonly isDataSetEnabled?: boolean;
+
+  /**
+   * Whether users can zoom into an asset class of the heatmap.
+   * @default true
+   */
+  readonly isZoomEnabled?: boolean;
+
+  /**
+   * Whether to show a tooltip with fund details when hovering a block.
+   * @default true
+   */
+  readonly hasSymbolTooltip?: boolean;
+
+  /**
+   * Whether to render every block with the same size, ignoring `blockSize`.
+   * @default false
+   */
+  readonly isMonoSize?: boolean;
+};
+
+/**
+ * TradingView ETFHeatmap widget for visualizing the ETF market.
+ *
+ * Renders exchange-traded funds as blocks, sized by trading volume or assets under
+ * management and colored by price performance. Grouping by asset class shows at a glance
+ * how money is moving between equities, bonds, commodities and other allocations.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/heatmaps/etf-heatmap/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <ETFHeatmap />
+ * ```
+ *
+ * @example
+ * Funds sized by AUM and colored by monthly performance:
+ * ```tsx
+ * <ETFHeatmap
+ *   blockSize="aum"
+ *   blockColor="monthlyPerformance"
+ *   colorTheme="dark"
+ *   hasTopBar
+ * />
+ * ```
+ *
+ * @example
+ * Ungrouped heatmap with equally sized blocks:
+ * ```tsx
+ * <ETFHeatmap grouping="no_group" isMonoSize width={800} height={500} />
+ * ```
+ */
+export const ETFHeatmap = (props: ETFHeatmapProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      dataSource: "AllUSEtf" as ETFHeatmapDataSource,
+      blockSize: "volume" as ETFHeatmapBlockSize,
+      blockColor: "dailyChange" as HeatmapBlockColor,
+      grouping: "asset_class" as ETFHeatmapGrouping,
+
+      hasTopBar: false,
+      isDataSetEnabled: false,
+      isZoomEnabled: true,
+      hasSymbolTooltip: true,
+      isMonoSize: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="ETFHeatmap"
+      scriptSrc="embed-widget-etf-heatmap.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        dataSource: _props.dataSource,
+        blockSize: BlockSizeMap[_props.blockSize],
+        blockColor: BlockColorMap[_props.blockColor],
+        grouping: _props.grouping,
+        hasTopBar: _props.hasTopBar,
+        isDataSetEnabled: _props.isDataSetEnabled,
+        isZoomEnabled: _props.isZoomEnabled,
+        hasSymbolTooltip: _props.hasSymbolTooltip,
+        isMonoSize: _props.isMonoSize,
+      })}
+    />
+  );
+};
@@ -0,0 +1,131 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, CurrencyList, Locale, Responsive, Size } from "../types";
+
+/**
+ * Props for the ForexCrossRates component.
+ */
+export type ForexCrossRatesProps = SizedWidgetProps & {
+  /**
+   * Currencies to include in the cross-rates matrix.
+   * Every currency is quoted against every other one, so at least two are required.
+   *
+   * @default ["EUR", "USD", "JPY", "GBP", "CHF", "AUD", "CAD", "NZD"]
+   *
+   * @example
+   * ```tsx
+   * currencies={["EUR", "USD", "GBP", "JPY"]}
+   * ```
+   */
+  readonly currencies?: CurrencyList;
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   * @default "full"
+   */
+  readonly height?: Responsive<Size>;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Whether to use a transparent background.
+   * @default false
+   */
+  readonly isTransparent?: boolean;
+};
+
+/**
+ * TradingView ForexCrossRates widget for a matrix of currency exchange rates.
+ *
+ * Displays the real-time exchange rate of every selected currency against every other
+ * one in a single table, with cells colored by their daily change. Useful for spotting
+ * at a glance which currencies are strengthening or weakening against the rest.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/heatmaps/forex-cross-rates/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <ForexCrossRates />
+ * ```
+ *
+ * @example
+ * Major European currencies with dark theme:
+ * ```tsx
+ * <ForexCrossRates
+ *   currencies={["EUR", "GBP", "CHF", "SEK", "NOK"]}
+ *   colorTheme="dark"
+ *   width={700}
+ *   height={400}
+ * />
+ * ```
+ */
+export const ForexCrossRates = (props: ForexCrossRatesProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      currencies: ["EUR", "USD", "JPY", "GBP", "CHF", "AUD", "CAD", "NZD"] as CurrencyList,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="ForexCrossRates"
+      scriptSrc="embed-widget-forex-cross-rates.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        currencies: _props.currencies,
+        isTransparent: _props.isTransparent,
+      })}
+    />
+  );
+};
@@ -0,0 +1,131 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, CurrencyList, Locale, Responsive, Size } from "../types";
+
+/**
+ * Props for the ForexHeatmap component.
+ */
+export type ForexHeatmapProps = SizedWidgetProps & {
+  /**
+   * Currencies to include in the heatmap.
+   * Every currency is compared against every other one, so at least two are required.
+   *
+   * @default ["EUR", "USD", "JPY", "GBP", "CHF", "AUD", "CAD", "NZD"]
+   *
+   * @example
+   * ```tsx
+   * currencies={["EUR", "USD", "GBP", "JPY"]}
+   * ```
+   */
+  readonly currencies?: CurrencyList;
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   * @default "full"
+   */
+  readonly height?: Responsive<Size>;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Whether to use a transparent background.
+   * @default false
+   */
+  readonly isTransparent?: boolean;
+};
+
+/**
+ * TradingView ForexHeatmap widget for visualizing relative currency strength.
+ *
+ * Shows the daily change of every selected currency pair as a colored cell, without the
+ * exchange rates themselves. Where `ForexCrossRates` answers "what is the rate", this
+ * widget answers "which currencies are strongest right now" in a single glance.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/heatmaps/forex-heat-map/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <ForexHeatmap />
+ * ```
+ *
+ * @example
+ * Asia-Pacific currencies with dark theme:
+ * ```tsx
+ * <ForexHeatmap
+ *   currencies={["USD", "JPY", "CNY", "AUD", "NZD", "SGD"]}
+ *   colorTheme="dark"
+ *   width={700}
+ *   height={400}
+ * />
+ * ```
+ */
+export const ForexHeatmap = (props: ForexHeatmapProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      currencies: ["EUR", "USD", "JPY", "GBP", "CHF", "AUD", "CAD", "NZD"] as CurrencyList,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="ForexHeatmap"
+      scriptSrc="embed-widget-forex-heat-map.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        currencies: _props.currencies,
+        isTransparent: _props.isTransparent,
+      })}
+    />
+  );
+};
@@ -0,0 +1,342 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type {
+  ColorTheme,
+  HeatmapBlockColor,
+  HeatmapBlockSize,
+  Locale,
+  Responsive,
+  Size,
+} from "../types";
+
+/**
+ * Stock indices and markets that can be displayed in the StockHeatmap widget.
+ * These are mapped to TradingView's internal data source identifiers.
+ *
+ * **United States:**
+ * - `sp500`: S&P 500 Index
+ * - `nasdaq100`: Nasdaq 100 Index
+ * - `dowJonesIndustrial`: Dow Jones Industrial Average
+ * - `dowJonesComposite`: Dow Jones Composite Average
+ * - `dowJonesTransportation`: Dow Jones Transportation Average
+ * - `dowJonesUtilities`: Dow Jones Utility Average
+ * - `allUsCompanies`: All US listed companies
+ *
+ * **Europe:**
+ * - `dax`: DAX Index (Germany)
+ * - `cac40`: CAC 40 Index (France)
+ * - `ibex35`: IBEX 35 Index (Spain)
+ * - `ftse100`: FTSE 100 Index (United Kingdom)
+ * - `euroStoxx50`: Euro Stoxx 50 Index
+ *
+ * @example
+ * ```tsx
+ * <StockHeatmap dataSource="sp500" /> // S&P 500 constituents
+ * <StockHeatmap dataSource="dax" /> // DAX constituents
+ * ```
+ */
+export type StockHeatmapDataSource =
+  | "sp500"
+  | "nasdaq100"
+  | "dowJonesIndustrial"
+  | "dowJonesComposite"
+  | "dowJonesTransportation"
+  | "dowJonesUtilities"
+  | "allUsCompanies"
+  | "dax"
+  | "cac40"
+  | "ibex35"
+  | "ftse100"
+  | "euroStoxx50";
+
+/**
+ * Metrics used to size the blocks of the StockHeatmap.
+ * Extends the shared {@link HeatmapBlockSize} metrics with stock-specific ones:
+ * - `numberOfEmployees`: Number of employees
+ * - `dividendYield`: Current dividend yield
+ * - `valueTraded`: Volume multiplied by price
+ *
+ * @example
+ * ```tsx
+ * <StockHeatmap blockSize="numberOfEmployees" /> // Biggest employers get the biggest blocks
+ * <StockHeatmap blockSize="valueTraded" /> // Stocks with the most money traded stand out
+ * ```
+ */
+export type StockHeatmapBlockSize =
+  | HeatmapBlockSize
+  | "numberOfEmployees"
+  | "dividendYield"
+  | "valueTraded";
+
+/**
+ * Metrics used to color the blocks of the StockHeatmap.
+ * Extends the shared {@link HeatmapBlockColor} metrics with stock-specific ones:
+ * - `premarketChange`: Pre-market price change
+ * - `postmarketChange`: Post-market price change
+ * - `gap`: Opening gap from the previous close
+ * - `relativeVolume`: Volume relative to the 10-day average
+ *
+ * @example
+ * ```tsx
+ * <StockHeatmap blockColor="premarketChange" /> // Movers before the open
+ * <StockHeatmap blockColor="gap" /> // Stocks that opened away from their previous close
+ * ```
+ */
+export type StockHeatmapBlockColor =
+  | HeatmapBlockColor
+  | "premarketChange"
+  | "postmarketChange"
+  | "gap"
+  | "relativeVolume";
+
+/**
+ * How the blocks of the StockHeatmap are grouped.
+ * - `sector`: Group companies by sector
+ * - `no_group`: Display all companies in a single group
+ */
+export type StockHeatmapGrouping = "sector" | "no_group";
+
+/**
+ * Maps data source values to TradingView's internal data source IDs.
+ * @internal
+ */
+const DataSourceMap: Record<StockHeatmapDataSource, string> = {
+  sp500: "SPX500",
+  nasdaq100: "NASDAQ100",
+  dowJonesIndustrial: "DJDJI",
+  dowJonesComposite: "DJCA",
+  dowJonesTransportation: "DJDJT",
+  dowJonesUtilities: "DJDJU",
+  allUsCompanies: "AllUSA",
+  dax: "DAX",
+  cac40: "CAC40",
+  ibex35: "IBEX35",
+  ftse100: "UK100",
+  euroStoxx50: "SX5E",
+};
+
+/**
+ * Maps block size values to TradingView's internal field IDs.
+ * @internal
+ */
+const BlockSizeMap: Record<StockHeatmapBlockSize, string> = {
+  marketCap: "market_cap_basic",
+  numberOfEmployees: "number_of_employees",
+  dividendYield: "dividends_yield_current",
+  volume: "volume",
+  valueTraded: "Value.Traded",
+};
+
+/**
+ * Maps block color values to TradingView's internal field IDs.
+ * @internal
+ */
+const BlockColorMap: Record<StockHeatmapBlockColor, string> = {
+  dailyChange: "change",
+  hourlyChange: "change|60",
+  fourHourChange: "change|240",
+  weeklyPerformance: "Perf.W",
+  monthlyPerformance: "Perf.1M",
+  threeMonthPerformance: "Perf.3M",
+  sixMonthPerformance: "Perf.6M",
+  ytdPerformance: "Perf.YTD",
+  yearlyPerformance: "Perf.Y",
+  premarketChange: "premarket_change",
+  postmarketChange: "postmarket_change",
+  gap: "gap",
+  relativeVolume: "relative_volume_10d_calc",
+  volatility: "Volatility.D",
+};
+
+/**
+ * Props for the StockHeatmap component.
+ */
+export type StockHeatmapProps = SizedWidgetProps & {
+  /**
+   * The index or market whose constituents are displayed.
+   * @default "sp500"
+   */
+  readonly dataSource?: StockHeatmapDataSource;
+
+  /**
+   * Metric used to size each block.
+   * @default "marketCap"
+   */
+  readonly blockSize?: StockHeatmapBlockSize;
+
+  /**
+   * Metric used to color each block.
+   * @default "dailyChange"
+   */
+  readonly blockColor?: StockHeatmapBlockColor;
+
+  /**
+   * How blocks are grouped in the heatmap.
+   * @default "sector"
+   */
+  readonly grouping?: StockHeatmapGrouping;
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   * @default "full"
+   */
+  readonly height?: Responsive<Size>;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Whether to show the top bar with the data source and metric selectors.
+   * @default false
+   */
+  readonly hasTopBar?: boolean;
+
+  /**
+   * Whether users can change the data source from the top bar.
+   * Only has an effect when `hasTopBar` is enabled.
+   * @default false
+   */
+  readonly isDataSetEnabled?: boolean;
+
+  /**
+   * Whether users can zoom into a group of the heatmap.
+   * @default true
+   */
+  readonly isZoomEnabled?: boolean;
+
+  /**
+   * Whether to show a tooltip with symbol details when hovering a block.
+   * @default true
+   */
+  readonly hasSymbolTooltip?: boolean;
+
+  /**
+   * Whether to render every block with the same size, ignoring `blockSize`.
+   * @default false
+   */
+  readonly isMonoSize?: boolean;
+};
+
+/**
+ * TradingView StockHeatmap widget for visualizing the performance of an index.
+ *
+ * Renders every constituent of the selected index as a block, sized by a chosen metric
+ * (market cap by default) and colored by another (daily change by default). Grouping by
+ * sector makes it easy to spot which parts of the market are leading or lagging.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/heatmaps/stock-heatmap/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <StockHeatmap />
+ * ```
+ *
+ * @example
+ * Nasdaq 100 sized by volume and colored by weekly performance:
+ * ```tsx
+ * <StockHeatmap
+ *   dataSource="nasdaq100"
+ *   blockSize="volume"
+ *   blockColor="weeklyPerformance"
+ *   colorTheme="dark"
+ *   hasTopBar
+ * />
+ * ```
+ *
+ * @example
+ * Ungrouped DAX heatmap with equally sized blocks:
+ * ```tsx
+ * <StockHeatmap
+ *   dataSource="dax"
+ *   grouping="no_group"
+ *   isMonoSize
+ *   width={800}
+ *   height={500}
+ * />
+ * ```
+ */
+export const StockHeatmap = (props: StockHeatmapProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      dataSource: "sp500" as StockHeatmapDataSource,
+      blockSize: "marketCap" as StockHeatmapBlockSize,
+      blockColor: "dailyChange" as StockHeatmapBlockColor,
+      grouping: "sector" as StockHeatmapGrouping,
+
+      hasTopBar: false,
+      isDataSetEnabled: false,
+      isZoomEnabled: true,
+      hasSymbolTooltip: true,
+      isMonoSize: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="StockHeatmap"
+      scriptSrc="embed-widget-stock-heatmap.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        exchanges: [],
+        dataSource: DataSourceMap[_props.dataSource],
+        blockSize: BlockSizeMap[_props.blockSize],
+        blockColor: BlockColorMap[_props.blockColor],
+        grouping: _props.grouping,
+        hasTopBar: _props.hasTopBar,
+        isDataSetEnabled: _props.isDataSetEnabled,
+        isZoomEnabled: _props.isZoomEnabled,
+        hasSymbolTooltip: _props.hasSymbolTooltip,
+        isMonoSize: _props.isMonoSize,
+      })}
+    />
+  );
+};
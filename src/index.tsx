@@ -25,6 +25,58 @@ export {
   type TimeFormat,
   type ValueTrackingMode,
 } from "./charts/SymbolOverview";
+export { type ColorThemeSource, createColorTheme } from "./core/createColorTheme";
+export {
+  createTradingViewWidget,
+  type CreateTradingViewWidgetOptions,
+  type TradingViewWidgetConfig,
+  type TradingViewWidgetController,
+  type TradingViewWidgetStatus,
+  type WidgetLazyOptions,
+  type WidgetRetryOptions,
+} from "./core/createTradingViewWidget";
+export {
+  WidgetConfigError,
+  WidgetError,
+  type WidgetErrorDetails,
+  WidgetScriptLoadError,
+  WidgetTimeoutError,
+} from "./core/errors";
+export { type ResponsiveResolver } from "./core/responsive";
+export {
+  type TradingViewDefaults,
+  TradingViewProvider,
+  type TradingViewProviderProps,
+  useTradingViewDefaults,
+} from "./core/TradingViewProvider";
+export {
+  type BaseWidgetProps,
+  type SizedWidgetProps,
+  TradingViewWidget,
+  type TradingViewWidgetProps,
+} from "./core/TradingViewWidget";
+export {
+  CryptoCoinsHeatmap,
+  type CryptoCoinsHeatmapDataSource,
+  type CryptoCoinsHeatmapProps,
+} from "./heatmaps/CryptoCoinsHeatmap";
+export {
+  ETFHeatmap,
+  type ETFHeatmapBlockSize,
+  type ETFHeatmapDataSource,
+  type ETFHeatmapGrouping,
+  type ETFHeatmapProps,
+} from "./heatmaps/ETFHeatmap";
+export { ForexCrossRates, type ForexCrossRatesProps } from "./heatmaps/ForexCrossRates";
+export { ForexHeatmap, type ForexHeatmapProps } from "./heatmaps/ForexHeatmap";
+export {
+  StockHeatmap,
+  type StockHeatmapBlockColor,
+  type StockHeatmapBlockSize,
+  type StockHeatmapDataSource,
+  type StockHeatmapGrouping,
+  type StockHeatmapProps,
+} from "./heatmaps/StockHeatmap";
 export {
   TopStories,
   type TopStoriesDisplayMode,
@@ -51,3 +103,35 @@ export {
   type TechnicalAnalysisProps,
 } from "./symbol/TechnicalAnalysis";
 export { SingleTicker, type SingleTickerProps } from "./tickers/SingleTicker";
+export { Ticker, type TickerProps } from "./tickers/Ticker";
+export { TickerTape, type TickerTapeDisplayMode, type TickerTapeProps } from "./tickers/TickerTape";
+export type {
+  Breakpoint,
+  ColorTheme,
+  Currency,
+  CurrencyList,
+  HeatmapBlockColor,
+  HeatmapBlockSize,
+  ResolvedColorTheme,
+  Responsive,
+  TickerSymbol,
+  TimeZone,
+  WatchlistDateRange,
+} from "./types";
+export {
+  MarketData,
+  type MarketDataProps,
+  type MarketDataSymbol,
+  type MarketDataSymbolsGroup,
+} from "./watchlists/MarketData";
+export {
+  MarketOverview,
+  type MarketOverviewProps,
+  type MarketOverviewSymbol,
+  type MarketOverviewTab,
+} from "./watchlists/MarketOverview";
+export {
+  StockMarket,
+  type StockMarketExchange,
+  type StockMarketProps,
+} from "./watchlists/StockMarket";
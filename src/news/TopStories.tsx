@@ -1,8 +1,14 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
-import type { ColorTheme, Locale, Size } from "../types";
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Feed modes for the TopStories widget.
@@ -35,7 +41,7 @@ export type TopStoriesDisplayMode = "adaptive" | "regular" | "compact";
 /**
  * Base props shared by all TopStories feed modes.
  */
-type BaseTopStoriesProps = {
+type BaseTopStoriesProps = SizedWidgetProps & {
   /**
    * Widget width in pixels. Ignored if `autosize` is true.
    * @default "full"
@@ -44,9 +50,10 @@ type BaseTopStoriesProps = {
 
   /**
    * Widget height in pixels. Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default "full"
    */
-  readonly height?: Size;
+  readonly height?: Responsive<Size>;
 
   /**
    * Color theme for the widget interface.
@@ -54,6 +61,11 @@ type BaseTopStoriesProps = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Locale for widget interface and content language.
    * @default "en"
@@ -62,9 +74,10 @@ type BaseTopStoriesProps = {
 
   /**
    * Layout mode for displaying news articles.
+   * Accepts a responsive value, e.g. `{ base: "compact", md: "regular" }`.
    * @default "adaptive"
    */
-  readonly displayMode?: TopStoriesDisplayMode;
+  readonly displayMode?: Responsive<TopStoriesDisplayMode>;
 
   /**
    * Whether the widget should automatically resize to fit its container.
@@ -78,12 +91,6 @@ type BaseTopStoriesProps = {
    * @default false
    */
   readonly isTransparent?: boolean;
-
-  /**
-   * Callback function called when an error occurs during widget initialization.
-   * @param error The error that occurred
-   */
-  readonly onError?: (error: Error) => void;
 };
 
 /**
@@ -170,7 +177,7 @@ export type TopStoriesProps = SymbolModeProps | NonSymbolModeProps;
  * ```
  */
 export const TopStories = (props: TopStoriesProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -183,56 +190,42 @@ export const TopStories = (props: TopStoriesProps): JSX.Element => {
       autosize: true,
       isTransparent: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const widgetConfig: Record<string, string | number | boolean> = {
-      width: fullWidth ? "100%" : _props.width,
-      height: fullHeight ? "100%" : _props.height,
-      locale: _props.locale,
-      colorTheme: _props.colorTheme,
-      feedMode: _props.feedMode,
-      displayMode: _props.displayMode,
-      isTransparent: _props.isTransparent,
-    };
-
-    if (_props.feedMode === "symbol") {
-      widgetConfig.symbol = _props.symbol;
-    }
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-timeline.js",
-          {
-            textContent: JSON.stringify(widgetConfig),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
-
-  return <div class="tradingview-widget-container" ref={container} />;
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="TopStories"
+      scriptSrc="embed-widget-timeline.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => {
+        const widgetConfig: Record<string, string | number | boolean> = {
+          width: fullWidth() ? "100%" : toConfigSize(_props.width),
+          height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+          locale: _props.locale,
+          colorTheme: colorTheme(),
+          feedMode: _props.feedMode,
+          displayMode: resolve(_props.displayMode),
+          isTransparent: _props.isTransparent,
+        };
+
+        if (_props.feedMode === "symbol") {
+          widgetConfig.symbol = _props.symbol;
+        }
+
+        return widgetConfig;
+      }}
+    />
+  );
 };
@@ -1,8 +1,14 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
-import type { ColorTheme, Locale, Size } from "../types";
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Exchange regions and markets supported by the TradingView Screener widget.
@@ -336,7 +342,7 @@ export const ScreenerScreenViews: Record<ScreenerExchange, ScreenerScreens> = {
 /**
  * Props for the Screener component.
  */
-export type ScreenerProps<E extends ScreenerExchange = "america"> = {
+export type ScreenerProps<E extends ScreenerExchange = "america"> = SizedWidgetProps & {
   /**
    * Widget width in pixels. Ignored if `autosize` is true.
    * @default "full"
@@ -345,9 +351,10 @@ export type ScreenerProps<E extends ScreenerExchange = "america"> = {
 
   /**
    * Widget height in pixels. Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default "full"
    */
-  readonly height?: Size;
+  readonly height?: Responsive<Size>;
 
   /**
    * Color theme for the widget interface.
@@ -355,6 +362,11 @@ export type ScreenerProps<E extends ScreenerExchange = "america"> = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Locale for widget interface and content language.
    * @default "en"
@@ -397,12 +409,6 @@ export type ScreenerProps<E extends ScreenerExchange = "america"> = {
    * @default true
    */
   readonly showTopToolbar?: boolean;
-
-  /**
-   * Callback function called when an error occurs during widget initialization.
-   * @param error The error that occurred
-   */
-  readonly onError?: (error: Error) => void;
 };
 
 /**
@@ -482,7 +488,7 @@ export type ScreenerProps<E extends ScreenerExchange = "america"> = {
 export const Screener = <E extends ScreenerExchange = "america">(
   props: ScreenerProps<E>,
 ): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -497,52 +503,36 @@ export const Screener = <E extends ScreenerExchange = "america">(
       isTransparent: false,
       showTopToolbar: true,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-screener.js",
-          {
-            textContent: JSON.stringify({
-              width: fullWidth ? "100%" : _props.width,
-              height: fullHeight ? "100%" : _props.height,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              isTransparent: _props.isTransparent,
-              showTopToolbar: _props.showTopToolbar,
-              market: _props.exchange,
-              defaultColumn: _props.defaultColumnView,
-              defaultScreen: _props.defaultScreenView,
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
-
-  return <div class="tradingview-widget-container" ref={container} />;
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="Screener"
+      scriptSrc="embed-widget-screener.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => ({
+        width: fullWidth() ? "100%" : toConfigSize(_props.width),
+        height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        isTransparent: _props.isTransparent,
+        showTopToolbar: _props.showTopToolbar,
+        market: _props.exchange,
+        defaultColumn: _props.defaultColumnView,
+        defaultScreen: _props.defaultScreenView,
+      })}
+    />
+  );
 };
@@ -1,13 +1,19 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
-import type { ColorTheme, Locale, Size } from "../types";
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Props for the CompanyProfile component.
  */
-export type CompanyProfileProps = {
+export type CompanyProfileProps = SizedWidgetProps & {
   /**
    * The financial symbol to display company information for (e.g., "NASDAQ:AAPL", "NYSE:TSLA").
    * This should be a publicly traded company symbol to display meaningful profile data.
@@ -24,9 +30,10 @@ export type CompanyProfileProps = {
 
   /**
    * Widget height in pixels. Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default "full"
    */
-  readonly height?: Size;
+  readonly height?: Responsive<Size>;
 
   /**
    * Color theme for the widget interface.
@@ -34,6 +41,11 @@ export type CompanyProfileProps = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Locale for widget interface and content language.
    * @default "en"
@@ -52,12 +64,6 @@ export type CompanyProfileProps = {
    * @default false
    */
   readonly isTransparent?: boolean;
-
-  /**
-   * Callback function called when an error occurs during widget initialization.
-   * @param error The error that occurred
-   */
-  readonly onError?: (error: Error) => void;
 };
 
 /**
@@ -114,7 +120,7 @@ export type CompanyProfileProps = {
  * ```
  */
 export const CompanyProfile = (props: CompanyProfileProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -125,49 +131,33 @@ export const CompanyProfile = (props: CompanyProfileProps): JSX.Element => {
       autosize: true,
       isTransparent: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-symbol-profile.js",
-          {
-            textContent: JSON.stringify({
-              symbol: _props.symbol,
-              width: fullWidth ? "100%" : _props.width,
-              height: fullHeight ? "100%" : _props.height,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              isTransparent: _props.isTransparent,
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
 
-  return <div class="tradingview-widget-container" ref={container} />;
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="CompanyProfile"
+      scriptSrc="embed-widget-symbol-profile.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => ({
+        symbol: _props.symbol,
+        width: fullWidth() ? "100%" : toConfigSize(_props.width),
+        height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        isTransparent: _props.isTransparent,
+      })}
+    />
+  );
 };
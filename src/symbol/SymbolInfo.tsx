@@ -1,13 +1,19 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  BASE_WIDGET_PROPS,
+  type BaseWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
 import type { ColorTheme, Locale, Size } from "../types";
 
 /**
  * Props for the SymbolInfo component.
  */
-export type SymbolInfoProps = {
+export type SymbolInfoProps = BaseWidgetProps & {
   /**
    * The financial symbol to display information for (e.g., "NASDAQ:AAPL", "BINANCE:BTCUSDT").
    * This is the primary symbol for which detailed information will be shown.
@@ -35,16 +41,15 @@ export type SymbolInfoProps = {
   readonly colorTheme?: ColorTheme;
 
   /**
-   * Whether to use a transparent background.
-   * @default false
+   * Where to read the host application's theme from when `colorTheme` is "auto".
    */
-  readonly isTransparent?: boolean;
+  readonly themeSource?: ColorThemeSource;
 
   /**
-   * Callback function called when an error occurs during widget initialization.
-   * @param error The error that occurred
+   * Whether to use a transparent background.
+   * @default false
    */
-  readonly onError?: (error: Error) => void;
+  readonly isTransparent?: boolean;
 };
 
 /**
@@ -98,7 +103,7 @@ export type SymbolInfoProps = {
  * ```
  */
 export const SymbolInfo = (props: SymbolInfoProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, BASE_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -107,43 +112,28 @@ export const SymbolInfo = (props: SymbolInfoProps): JSX.Element => {
       colorTheme: "light" as ColorTheme,
       isTransparent: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    container.style.width = _props.width === "full" ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = _props.width === "full" ? "100%" : `${_props.width}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-symbol-info.js",
-          {
-            textContent: JSON.stringify({
-              symbol: _props.symbol,
-              width: _props.width === "full" ? "100%" : _props.width,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              isTransparent: _props.isTransparent,
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
 
-  return <div class="tradingview-widget-container" ref={container} />;
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="SymbolInfo"
+      scriptSrc="embed-widget-symbol-info.js"
+      width={_props.width}
+      config={() => ({
+        symbol: _props.symbol,
+        width: toConfigSize(_props.width),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        isTransparent: _props.isTransparent,
+      })}
+    />
+  );
 };
@@ -1,8 +1,14 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
-import type { ColorTheme, Locale, Size } from "../types";
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
 
 /**
  * Display modes for the TechnicalAnalysis widget.
@@ -48,7 +54,7 @@ export type TechnicalAnalysisInterval =
 /**
  * Props for the TechnicalAnalysis component.
  */
-export type TechnicalAnalysisProps = {
+export type TechnicalAnalysisProps = SizedWidgetProps & {
   /**
    * The financial symbol to analyze (e.g., "NASDAQ:AAPL", "BINANCE:BTCUSDT").
    * This is the primary symbol for which technical analysis will be displayed.
@@ -65,9 +71,10 @@ export type TechnicalAnalysisProps = {
 
   /**
    * Widget height in pixels. Ignored if `autosize` is true.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
    * @default "full"
    */
-  readonly height?: Size;
+  readonly height?: Responsive<Size>;
 
   /**
    * Locale for widget interface and content language.
@@ -94,6 +101,11 @@ export type TechnicalAnalysisProps = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Whether the widget should automatically resize to fit its container.
    * When true, `width` and `height` props are ignored.
@@ -123,12 +135,6 @@ export type TechnicalAnalysisProps = {
    * @default false
    */
   readonly isTransparent?: boolean;
-
-  /**
-   * Callback function called when an error occurs during widget initialization.
-   * @param error The error that occurred
-   */
-  readonly onError?: (error: Error) => void;
 };
 
 /**
@@ -185,7 +191,7 @@ export type TechnicalAnalysisProps = {
  * ```
  */
 export const TechnicalAnalysis = (props: TechnicalAnalysisProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -199,52 +205,36 @@ export const TechnicalAnalysis = (props: TechnicalAnalysisProps): JSX.Element =>
       showIntervalTabs: false,
       isTransparent: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    const fullWidth = _props.autosize || _props.width === "full";
-    container.style.width = fullWidth ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = fullWidth ? "100%" : `${_props.width}px`;
-
-    const fullHeight = _props.autosize || _props.height === "full";
-    container.style.height = fullHeight ? "100%" : `${_props.height}px`;
-    widgetRoot.style.height = fullHeight ? "100%" : `${_props.height}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-technical-analysis.js",
-          {
-            textContent: JSON.stringify({
-              symbol: _props.symbol,
-              width: fullWidth ? "100%" : _props.width,
-              height: fullHeight ? "100%" : _props.height,
-              interval: _props.interval,
-              showIntervalTabs: _props.showIntervalTabs,
-              displayMode: _props.displayMode,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              isTransparent: _props.isTransparent,
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
-
-  return <div class="tradingview-widget-container" ref={container} />;
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  const fullWidth = () => _props.autosize || _props.width === "full";
+  const fullHeight = () => _props.autosize || _props.height === "full";
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="TechnicalAnalysis"
+      scriptSrc="embed-widget-technical-analysis.js"
+      width={fullWidth() ? "full" : _props.width}
+      height={fullHeight() ? "full" : _props.height}
+      config={(resolve) => ({
+        symbol: _props.symbol,
+        width: fullWidth() ? "100%" : toConfigSize(_props.width),
+        height: fullHeight() ? "100%" : toConfigSize(resolve(_props.height)),
+        interval: _props.interval,
+        showIntervalTabs: _props.showIntervalTabs,
+        displayMode: _props.displayMode,
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        isTransparent: _props.isTransparent,
+      })}
+    />
+  );
 };
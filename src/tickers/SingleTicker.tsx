@@ -1,13 +1,20 @@
-import { loadScript } from "@dschz/load-script";
-import { tryCatch } from "@dschz/try-catch";
-import { createEffect, type JSX, mergeProps, onCleanup } from "solid-js";
-
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import type { WidgetError } from "../core/errors";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  BASE_WIDGET_PROPS,
+  type BaseWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
 import type { ColorTheme, Locale, Size } from "../types";
 
 /**
  * Props for the SingleTicker component.
  */
-export type SingleTickerProps = {
+export type SingleTickerProps = BaseWidgetProps & {
   /**
    * The financial symbol to display in the ticker widget.
    * This should be a valid TradingView symbol identifier including the exchange prefix.
@@ -45,6 +52,11 @@ export type SingleTickerProps = {
    */
   readonly colorTheme?: ColorTheme;
 
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
   /**
    * Locale for widget interface and content language.
    * Controls the display language for text elements and number formatting.
@@ -60,11 +72,12 @@ export type SingleTickerProps = {
   readonly isTransparent?: boolean;
 
   /**
-   * Callback function called when an error occurs during widget initialization.
+   * Callback function called when an error occurs during widget initialization,
+   * once every retry attempt has failed.
    * Use this to handle loading errors or invalid symbol configurations.
-   * @param error The error that occurred
+   * @param error The error that occurred, one of the `WidgetError` subclasses
    */
-  readonly onError?: (error: Error) => void;
+  readonly onError?: (error: WidgetError) => void;
 };
 
 /**
@@ -144,7 +157,7 @@ export type SingleTickerProps = {
  * ```
  */
 export const SingleTicker = (props: SingleTickerProps): JSX.Element => {
-  let container!: HTMLDivElement;
+  const [base, local] = splitProps(props, BASE_WIDGET_PROPS);
 
   const _props = mergeProps(
     {
@@ -153,43 +166,28 @@ export const SingleTicker = (props: SingleTickerProps): JSX.Element => {
       colorTheme: "light" as ColorTheme,
       isTransparent: false,
     },
-    props,
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
   );
 
-  createEffect(() => {
-    const widgetRoot = document.createElement("div");
-    widgetRoot.classList.add("tradingview-widget-container__widget");
-    container.appendChild(widgetRoot);
-
-    container.style.width = _props.width === "full" ? "100%" : `${_props.width}px`;
-    widgetRoot.style.width = _props.width === "full" ? "100%" : `${_props.width}px`;
-
-    const downloadScript = async () => {
-      const [error] = await tryCatch(
-        loadScript(
-          "https://s3.tradingview.com/external-embedding/embed-widget-single-quote.js",
-          {
-            textContent: JSON.stringify({
-              symbol: _props.symbol,
-              width: _props.width === "full" ? "100%" : _props.width,
-              locale: _props.locale,
-              colorTheme: _props.colorTheme,
-              isTransparent: _props.isTransparent,
-            }),
-          },
-          widgetRoot,
-        ),
-      );
-
-      if (error) _props.onError?.(error);
-    };
-
-    void downloadScript();
-
-    onCleanup(() => {
-      widgetRoot.remove();
-    });
-  });
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
 
-  return <div class="tradingview-widget-container" ref={container} />;
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="SingleTicker"
+      scriptSrc="embed-widget-single-quote.js"
+      width={_props.width}
+      config={() => ({
+        symbol: _props.symbol,
+        width: toConfigSize(_props.width),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        isTransparent: _props.isTransparent,
+      })}
+    />
+  );
 };
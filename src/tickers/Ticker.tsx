@@ -0,0 +1,141 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  BASE_WIDGET_PROPS,
+  type BaseWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Size, TickerSymbol } from "../types";
+
+/**
+ * Props for the Ticker component.
+ */
+export type TickerProps = BaseWidgetProps & {
+  /**
+   * List of symbols to display side by side in the ticker.
+   * Each symbol should include the exchange prefix for accurate data retrieval.
+   *
+   * @example
+   * ```tsx
+   * symbols={[
+   *   { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+   *   { symbol: "FOREXCOM:NSXUSD", title: "US 100" },
+   *   { symbol: "FX_IDC:EURUSD", title: "EUR to USD" },
+   * ]}
+   * ```
+   */
+  readonly symbols: TickerSymbol[];
+
+  /**
+   * Widget width in pixels. The widget will automatically adjust its height.
+   * Use "full" to make the widget take the full width of its container.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Whether to show the logo next to each symbol.
+   * @default true
+   */
+  readonly showSymbolLogo?: boolean;
+
+  /**
+   * Whether to use a transparent background.
+   * @default false
+   */
+  readonly isTransparent?: boolean;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+};
+
+/**
+ * TradingView Ticker widget for a horizontal glance at several instruments.
+ *
+ * Displays the latest price and daily change for multiple symbols side by side in a
+ * single embed, which makes it a lighter alternative to stacking several `SingleTicker`
+ * widgets in a header bar. Unlike `TickerTape`, the entries are static rather than scrolling.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/tickers/ticker/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <Ticker
+ *   symbols={[
+ *     { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+ *     { symbol: "FOREXCOM:NSXUSD", title: "US 100" },
+ *     { symbol: "BITSTAMP:BTCUSD", title: "Bitcoin" },
+ *   ]}
+ * />
+ * ```
+ *
+ * @example
+ * Dark header ticker without logos:
+ * ```tsx
+ * <Ticker
+ *   symbols={[{ symbol: "NASDAQ:AAPL" }, { symbol: "NASDAQ:MSFT" }, { symbol: "NASDAQ:NVDA" }]}
+ *   colorTheme="dark"
+ *   showSymbolLogo={false}
+ *   width={800}
+ *   isTransparent
+ * />
+ * ```
+ */
+export const Ticker = (props: TickerProps): JSX.Element => {
+  const [base, local] = splitProps(props, BASE_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      showSymbolLogo: true,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="Ticker"
+      scriptSrc="embed-widget-tickers.js"
+      width={_props.width}
+      config={() => ({
+        symbols: _props.symbols.map((item) => ({
+          proName: item.symbol,
+          title: item.title,
+        })),
+        width: toConfigSize(_props.width),
+        showSymbolLogo: _props.showSymbolLogo,
+        isTransparent: _props.isTransparent,
+        colorTheme: colorTheme(),
+        locale: _props.locale,
+      })}
+    />
+  );
+};
@@ -0,0 +1,153 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  BASE_WIDGET_PROPS,
+  type BaseWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, TickerSymbol } from "../types";
+
+/**
+ * Display modes for the TickerTape widget.
+ * - `adaptive`: Automatically switches between regular and compact based on available width
+ * - `regular`: Shows symbol name, price and change for every entry
+ * - `compact`: Condensed entries with minimal spacing, ideal for narrow headers
+ *
+ * @example
+ * ```tsx
+ * <TickerTape symbols={symbols} displayMode="compact" /> // Slim header strip
+ * <TickerTape symbols={symbols} displayMode="regular" /> // Full quote details
+ * ```
+ */
+export type TickerTapeDisplayMode = "adaptive" | "regular" | "compact";
+
+/**
+ * Props for the TickerTape component.
+ */
+export type TickerTapeProps = BaseWidgetProps & {
+  /**
+   * List of symbols to scroll across the ticker tape.
+   * Each symbol should include the exchange prefix for accurate data retrieval.
+   *
+   * @example
+   * ```tsx
+   * symbols={[
+   *   { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+   *   { symbol: "FOREXCOM:NSXUSD", title: "US 100" },
+   *   { symbol: "BITSTAMP:BTCUSD", title: "Bitcoin" },
+   * ]}
+   * ```
+   */
+  readonly symbols: TickerSymbol[];
+
+  /**
+   * Layout mode for the ticker entries.
+   * @default "adaptive"
+   */
+  readonly displayMode?: TickerTapeDisplayMode;
+
+  /**
+   * Whether to show the logo next to each symbol.
+   * @default true
+   */
+  readonly showSymbolLogo?: boolean;
+
+  /**
+   * Whether to use a transparent background.
+   * @default false
+   */
+  readonly isTransparent?: boolean;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+};
+
+/**
+ * TradingView TickerTape widget for a Wall Street style scrolling quote strip.
+ *
+ * Continuously scrolls a list of instruments horizontally, showing the latest price
+ * and daily change for each one. Commonly placed at the top of a page or dashboard
+ * to give an at-a-glance view of the markets. The widget spans the full width of its
+ * container and sizes its own height.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/tickers/ticker-tape/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <TickerTape
+ *   symbols={[
+ *     { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+ *     { symbol: "FX_IDC:EURUSD", title: "EUR to USD" },
+ *     { symbol: "BITSTAMP:BTCUSD", title: "Bitcoin" },
+ *   ]}
+ * />
+ * ```
+ *
+ * @example
+ * Compact dark ticker tape without logos:
+ * ```tsx
+ * <TickerTape
+ *   symbols={[{ symbol: "NASDAQ:AAPL" }, { symbol: "NASDAQ:MSFT" }, { symbol: "NASDAQ:NVDA" }]}
+ *   displayMode="compact"
+ *   colorTheme="dark"
+ *   showSymbolLogo={false}
+ *   isTransparent
+ * />
+ * ```
+ */
+export const TickerTape = (props: TickerTapeProps): JSX.Element => {
+  const [base, local] = splitProps(props, BASE_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      displayMode: "adaptive" as TickerTapeDisplayMode,
+      showSymbolLogo: true,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="TickerTape"
+      scriptSrc="embed-widget-ticker-tape.js"
+      config={() => ({
+        symbols: _props.symbols.map((item) => ({
+          proName: item.symbol,
+          title: item.title,
+        })),
+        displayMode: _props.displayMode,
+        showSymbolLogo: _props.showSymbolLogo,
+        isTransparent: _props.isTransparent,
+        colorTheme: colorTheme(),
+        locale: _props.locale,
+      })}
+    />
+  );
+};
@@ -1,5 +1,151 @@
-export type ColorTheme = "light" | "dark";
-export type Size = number | "full";
+/**
+ * Color theme of a widget.
+ * - `light` / `dark`: Fixed theme
+ * - `auto`: Follows the host application's theme when a `themeSource` is given, and the
+ *   operating system's `prefers-color-scheme` otherwise, updating when it changes
+ */
+export type ColorTheme = "light" | "dark" | "auto";
+
+/**
+ * Color theme actually handed to TradingView once `auto` has been resolved.
+ */
+export type ResolvedColorTheme = Exclude<ColorTheme, "auto">;
+
+/**
+ * Width or height of a widget.
+ * - `number`: Fixed size in pixels
+ * - `full`: 100% of the parent element, which needs a definite size for heights to apply
+ * - `fit`: The measured content size of the parent element, tracked with a `ResizeObserver`.
+ *   The parent must be sized independently of the widget: in a parent whose height comes
+ *   from its content, the measured height is the widget's own and collapses to zero. Use
+ *   `aspectRatio` there instead
+ */
+export type Size = number | "full" | "fit";
+
+/**
+ * Named widths at which {@link Responsive} values change. They default to 480, 768, 1024
+ * and 1280 pixels, and can be changed with `breakpoints` on the `TradingViewProvider`.
+ */
+export type Breakpoint = "sm" | "md" | "lg" | "xl";
+
+/**
+ * A prop value that can change with the width available to the widget, i.e. the width of
+ * its parent element rather than the viewport. Each value applies from its breakpoint
+ * upward, and `base` applies below the smallest breakpoint set.
+ *
+ * @example
+ * ```tsx
+ * displayMode={{ base: "compact", md: "regular" }} // compact below 768px, regular above
+ * ```
+ */
+export type Responsive<T> = T | ({ readonly base: T } & { readonly [K in Breakpoint]?: T });
+
+/**
+ * Timezone identifiers for displaying dates and times in widgets.
+ * Controls, for example, what timezone is used for candle open/close times in charts.
+ *
+ * @example
+ * ```tsx
+ * <AdvancedChart timezone="America/New_York" /> // Eastern Time
+ * <AdvancedChart timezone="exchange" /> // Use exchange timezone
+ * ```
+ */
+export type TimeZone =
+  | "exchange"
+  | "Etc/UTC"
+  | "Pacific/Honolulu"
+  | "America/Anchorage"
+  | "America/Juneau"
+  | "America/Los_Angeles"
+  | "America/Phoenix"
+  | "America/Vancouver"
+  | "US/Mountain"
+  | "America/Mexico_City"
+  | "America/El_Salvador"
+  | "America/Bogota"
+  | "America/Chicago"
+  | "America/Lima"
+  | "America/Caracas"
+  | "America/New_York"
+  | "America/Santiago"
+  | "America/Toronto"
+  | "America/Argentina/Buenos_Aires"
+  | "America/Sao_Paulo"
+  | "Atlantic/Azores"
+  | "Atlantic/Reykjavik"
+  | "Africa/Casablanca"
+  | "Europe/Dublin"
+  | "Africa/Lagos"
+  | "Europe/Lisbon"
+  | "Europe/London"
+  | "Africa/Tunis"
+  | "Europe/Amsterdam"
+  | "Europe/Belgrade"
+  | "Europe/Berlin"
+  | "Europe/Bratislava"
+  | "Europe/Brussels"
+  | "Europe/Budapest"
+  | "Europe/Copenhagen"
+  | "Africa/Johannesburg"
+  | "Europe/Luxembourg"
+  | "Europe/Madrid"
+  | "Europe/Malta"
+  | "Europe/Oslo"
+  | "Europe/Paris"
+  | "Europe/Prague"
+  | "Europe/Rome"
+  | "Europe/Stockholm"
+  | "Europe/Vienna"
+  | "Europe/Warsaw"
+  | "Europe/Zurich"
+  | "Europe/Athens"
+  | "Asia/Bahrain"
+  | "Europe/Bucharest"
+  | "Africa/Cairo"
+  | "Europe/Helsinki"
+  | "Europe/Istanbul"
+  | "Asia/Jerusalem"
+  | "Asia/Kuwait"
+  | "Europe/Moscow"
+  | "Africa/Nairobi"
+  | "Asia/Nicosia"
+  | "Asia/Qatar"
+  | "Europe/Riga"
+  | "Asia/Riyadh"
+  | "Europe/Tallinn"
+  | "Europe/Vilnius"
+  | "Asia/Tehran"
+  | "Asia/Dubai"
+  | "Asia/Muscat"
+  | "Asia/Kabul"
+  | "Asia/Ashkhabad"
+  | "Asia/Almaty"
+  | "Asia/Karachi"
+  | "Asia/Colombo"
+  | "Asia/Kolkata"
+  | "Asia/Kathmandu"
+  | "Asia/Dhaka"
+  | "Asia/Yangon"
+  | "Asia/Bangkok"
+  | "Asia/Ho_Chi_Minh"
+  | "Asia/Jakarta"
+  | "Asia/Chongqing"
+  | "Asia/Hong_Kong"
+  | "Asia/Kuala_Lumpur"
+  | "Asia/Manila"
+  | "Australia/Perth"
+  | "Asia/Shanghai"
+  | "Asia/Singapore"
+  | "Asia/Taipei"
+  | "Asia/Seoul"
+  | "Asia/Tokyo"
+  | "Australia/Adelaide"
+  | "Australia/Brisbane"
+  | "Australia/Sydney"
+  | "Pacific/Norfolk"
+  | "Pacific/Auckland"
+  | "Pacific/Chatham"
+  | "Pacific/Fakaofo";
 
 export type Locale =
   /** English */
@@ -47,3 +193,135 @@ export type LocaleFull =
   | "Traditional Chinese"
   | "Arabic"
   | "Hebrew";
+
+/**
+ * Block sizing metrics shared by the heatmap widgets.
+ * - `marketCap`: Market capitalization
+ * - `volume`: Trading volume
+ *
+ * @example
+ * ```tsx
+ * <StockHeatmap blockSize="marketCap" /> // Biggest companies get the biggest blocks
+ * <CryptoCoinsHeatmap blockSize="volume" /> // Most traded coins stand out
+ * ```
+ */
+export type HeatmapBlockSize = "marketCap" | "volume";
+
+/**
+ * Block coloring metrics shared by the heatmap widgets.
+ * - `dailyChange`: Price change over the current day (last 24 hours for crypto)
+ * - `hourlyChange`: Price change over the last hour
+ * - `fourHourChange`: Price change over the last 4 hours
+ * - `weeklyPerformance` / `monthlyPerformance` / `threeMonthPerformance` / `sixMonthPerformance`:
+ *   Performance over the corresponding period
+ * - `ytdPerformance`: Year-to-date performance
+ * - `yearlyPerformance`: Performance over the last year
+ * - `volatility`: Daily volatility
+ *
+ * @example
+ * ```tsx
+ * <StockHeatmap blockColor="dailyChange" /> // Today's movers
+ * <ETFHeatmap blockColor="ytdPerformance" /> // Year-to-date leaders and laggards
+ * ```
+ */
+export type HeatmapBlockColor =
+  | "dailyChange"
+  | "hourlyChange"
+  | "fourHourChange"
+  | "weeklyPerformance"
+  | "monthlyPerformance"
+  | "threeMonthPerformance"
+  | "sixMonthPerformance"
+  | "ytdPerformance"
+  | "yearlyPerformance"
+  | "volatility";
+
+/**
+ * ISO 4217 currency codes supported by the forex widgets.
+ */
+export type Currency =
+  | "EUR" // Euro
+  | "USD" // US Dollar
+  | "JPY" // Japanese Yen
+  | "GBP" // British Pound
+  | "CHF" // Swiss Franc
+  | "AUD" // Australian Dollar
+  | "CAD" // Canadian Dollar
+  | "NZD" // New Zealand Dollar
+  | "CNY" // Chinese Yuan
+  | "HKD" // Hong Kong Dollar
+  | "SGD" // Singapore Dollar
+  | "SEK" // Swedish Krona
+  | "NOK" // Norwegian Krone
+  | "DKK" // Danish Krone
+  | "PLN" // Polish Zloty
+  | "CZK" // Czech Koruna
+  | "HUF" // Hungarian Forint
+  | "ISK" // Icelandic Krona
+  | "TRY" // Turkish Lira
+  | "RUB" // Russian Ruble
+  | "ILS" // Israeli New Shekel
+  | "AED" // UAE Dirham
+  | "SAR" // Saudi Riyal
+  | "KWD" // Kuwaiti Dinar
+  | "ZAR" // South African Rand
+  | "INR" // Indian Rupee
+  | "KRW" // South Korean Won
+  | "TWD" // New Taiwan Dollar
+  | "THB" // Thai Baht
+  | "MYR" // Malaysian Ringgit
+  | "IDR" // Indonesian Rupiah
+  | "PHP" // Philippine Peso
+  | "MXN" // Mexican Peso
+  | "BRL" // Brazilian Real
+  | "ARS" // Argentine Peso
+  | "CLP" // Chilean Peso
+  | "COP" // Colombian Peso
+  | "PEN"; // Peruvian Sol
+
+/**
+ * A list of at least two currencies, as required to compare exchange rates.
+ *
+ * @example
+ * ```tsx
+ * const currencies: CurrencyList = ["EUR", "USD", "JPY"]; // OK
+ * const invalid: CurrencyList = ["EUR"]; // Type error
+ * ```
+ */
+export type CurrencyList = readonly [Currency, Currency, ...Currency[]];
+
+/**
+ * Date range options for the charts of the MarketOverview and StockMarket widgets.
+ *
+ * - `1D`: 1 Day - Intraday view
+ * - `1M`: 1 Month
+ * - `3M`: 3 Months
+ * - `12M`: 12 Months
+ * - `60M`: 60 Months (5 years)
+ * - `ALL`: All available history
+ *
+ * @example
+ * ```tsx
+ * <MarketOverview tabs={tabs} dateRange="1D" /> // Intraday moves
+ * <StockMarket dateRange="60M" /> // Five year trend
+ * ```
+ */
+export type WatchlistDateRange = "1D" | "1M" | "3M" | "12M" | "60M" | "ALL";
+
+/**
+ * A single entry in the Ticker and TickerTape widgets.
+ *
+ * @example
+ * ```tsx
+ * const symbols: TickerSymbol[] = [
+ *   { symbol: "FOREXCOM:SPXUSD", title: "S&P 500" },
+ *   { symbol: "NASDAQ:AAPL" },
+ * ];
+ * ```
+ */
+export type TickerSymbol = {
+  /** The symbol to display, including the exchange prefix (e.g., "NASDAQ:AAPL") */
+  readonly symbol: string;
+  /** Optional display title. Defaults to TradingView's own symbol description. */
+  readonly title?: string;
+};
@@ -0,0 +1,196 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size } from "../types";
+
+/**
+ * A symbol listed inside a MarketData group.
+ */
+export type MarketDataSymbol = {
+  /** The symbol to display, including the exchange prefix (e.g., "FOREXCOM:SPXUSD") */
+  readonly name: string;
+  /** Optional display name. Defaults to TradingView's own symbol description. */
+  readonly displayName?: string;
+};
+
+/**
+ * A named group of symbols shown as a quote table in the MarketData widget.
+ *
+ * @example
+ * ```tsx
+ * const futures: MarketDataSymbolsGroup = {
+ *   name: "Futures",
+ *   symbols: [
+ *     { name: "CME_MINI:ES1!", displayName: "S&P 500" },
+ *     { name: "COMEX:GC1!", displayName: "Gold" },
+ *   ],
+ * };
+ * ```
+ */
+export type MarketDataSymbolsGroup = {
+  /** Title displayed for the group */
+  readonly name: string;
+  /** Symbols listed in the group's quote table */
+  readonly symbols: MarketDataSymbol[];
+};
+
+/**
+ * Props for the MarketData component.
+ */
+export type MarketDataProps = SizedWidgetProps & {
+  /**
+   * Groups of symbols to display, each rendered as its own quote table.
+   *
+   * @example
+   * ```tsx
+   * symbolsGroups={[
+   *   {
+   *     name: "Indices",
+   *     symbols: [
+   *       { name: "FOREXCOM:SPXUSD", displayName: "S&P 500" },
+   *       { name: "FOREXCOM:NSXUSD", displayName: "US 100" },
+   *     ],
+   *   },
+   *   {
+   *     name: "Forex",
+   *     symbols: [{ name: "FX:EURUSD" }, { name: "FX:GBPUSD" }],
+   *   },
+   * ]}
+   * ```
+   */
+  readonly symbolsGroups: MarketDataSymbolsGroup[];
+
+  /**
+   * Widget width in pixels, "full" for container width, or "fit" to track the parent width.
+   * @default "full"
+   */
+  readonly width?: Size;
+
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   * @default "full"
+   */
+  readonly height?: Responsive<Size>;
+
+  /**
+   * Color theme for the widget interface.
+   * @default "light"
+   */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+
+  /**
+   * Locale for widget interface and number formatting.
+   * @default "en"
+   */
+  readonly locale?: Locale;
+
+  /**
+   * Whether to show the logo next to each symbol.
+   * @default true
+   */
+  readonly showSymbolLogo?: boolean;
+
+  /**
+   * Whether to use a transparent background.
+   * @default false
+   */
+  readonly isTransparent?: boolean;
+};
+
+/**
+ * TradingView MarketData widget for real-time quote tables.
+ *
+ * Displays one or more tables of live quotes, grouped by category such as indices,
+ * futures, bonds or forex. Each row shows the latest price, absolute change and
+ * percentage change, making the widget well suited to monitoring pages and watchlists.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/watchlists/market-quotes/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <MarketData
+ *   symbolsGroups={[
+ *     {
+ *       name: "Indices",
+ *       symbols: [
+ *         { name: "FOREXCOM:SPXUSD", displayName: "S&P 500" },
+ *         { name: "FOREXCOM:DJI", displayName: "Dow 30" },
+ *       ],
+ *     },
+ *   ]}
+ * />
+ * ```
+ *
+ * @example
+ * Dark quote tables with fixed dimensions:
+ * ```tsx
+ * <MarketData
+ *   symbolsGroups={groups}
+ *   colorTheme="dark"
+ *   width={600}
+ *   height={500}
+ *   showSymbolLogo={false}
+ * />
+ * ```
+ */
+export const MarketData = (props: MarketDataProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      showSymbolLogo: true,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="MarketData"
+      scriptSrc="embed-widget-market-quotes.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        showSymbolLogo: _props.showSymbolLogo,
+        isTransparent: _props.isTransparent,
+        symbolsGroups: _props.symbolsGroups.map((group) => ({
+          name: group.name,
+          originalName: group.name,
+          symbols: group.symbols.map((item) => ({
+            name: item.name,
+            displayName: item.displayName,
+          })),
+        })),
+      })}
+    />
+  );
+};
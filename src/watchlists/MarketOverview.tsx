@@ -0,0 +1,219 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size, WatchlistDateRange } from "../types";
+
+/**
+ * A symbol listed inside a MarketOverview tab.
+ */
+export type MarketOverviewSymbol = {
+  /** The symbol to display, including the exchange prefix (e.g., "FOREXCOM:SPXUSD") */
+  readonly symbol: string;
+  /** Optional display name. Defaults to TradingView's own symbol description. */
+  readonly displayName?: string;
+};
+
+/**
+ * A named group of symbols shown as a tab in the MarketOverview widget.
+ *
+ * @example
+ * ```tsx
+ * const indices: MarketOverviewTab = {
+ *   title: "Indices",
+ *   symbols: [
+ *     { symbol: "FOREXCOM:SPXUSD", displayName: "S&P 500" },
+ *     { symbol: "FOREXCOM:NSXUSD", displayName: "US 100" },
+ *   ],
+ * };
+ * ```
+ */
+export type MarketOverviewTab = {
+  /** Title displayed on the tab */
+  readonly title: string;
+  /** Symbols listed under the tab */
+  readonly symbols: MarketOverviewSymbol[];
+};
+
+/**
+ * Props for the MarketOverview component.
+ */
+export type MarketOverviewProps = SizedWidgetProps & {
+  /**
+   * Tabbed groups of symbols to display in the overview.
+   *
+   * @example
+   * ```tsx
+   * tabs={[
+   *   {
+   *     title: "Indices",
+   *     symbols: [{ symbol: "FOREXCOM:SPXUSD", displayName: "S&P 500" }],
+   *   },
+   *   {
+   *     title: "Crypto",
+   *     symbols: [{ symbol: "BITSTAMP:BTCUSD" }, { symbol: "BITSTAMP:ETHUSD" }],
+   *   },
+   * ]}
+   * ```
+   */
+  readonly tabs: MarketOverviewTab[];
+
+  /** Widget width in pixels, "full" for container width, or "fit" to track the parent width */
+  readonly width?: Size;
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   */
+  readonly height?: Responsive<Size>;
+  /** Display language and regional formatting */
+  readonly locale?: Locale;
+  /** Widget color theme (light/dark) */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+  /** Time period displayed in the chart */
+  readonly dateRange?: WatchlistDateRange;
+
+  // UI Elements
+  /** Show/hide the chart above the symbol list */
+  readonly showChart?: boolean;
+  /** Show/hide symbol logos in the list */
+  readonly showSymbolLogo?: boolean;
+  /** Show/hide the floating tooltip when hovering the chart */
+  readonly showFloatingTooltip?: boolean;
+  /** Transparent widget background */
+  readonly isTransparent?: boolean;
+
+  // Plot Colors
+  /** Plot line color when the price is rising */
+  readonly lineUpColor?: string;
+  /** Plot line color when the price is falling */
+  readonly lineDownColor?: string;
+  /** Area fill top gradient color when the price is rising */
+  readonly topUpColor?: string;
+  /** Area fill top gradient color when the price is falling */
+  readonly topDownColor?: string;
+  /** Area fill bottom gradient color when the price is rising */
+  readonly bottomUpColor?: string;
+  /** Area fill bottom gradient color when the price is falling */
+  readonly bottomDownColor?: string;
+
+  // Grid and Labels
+  /** Chart grid line color */
+  readonly gridLineColor?: string;
+  /** Price scale label color */
+  readonly scaleFontColor?: string;
+  /** Highlight color for the selected symbol in the list */
+  readonly symbolActiveColor?: string;
+};
+
+/**
+ * TradingView MarketOverview widget for a tabbed summary of market sectors.
+ *
+ * Shows a chart for the selected instrument above a list of symbols, grouped into tabs
+ * such as indices, futures, bonds or crypto. Clicking a symbol in the list switches the
+ * chart to that instrument, making it a compact way to follow several markets at once.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/watchlists/market-overview/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <MarketOverview
+ *   tabs={[
+ *     {
+ *       title: "Indices",
+ *       symbols: [
+ *         { symbol: "FOREXCOM:SPXUSD", displayName: "S&P 500" },
+ *         { symbol: "FOREXCOM:NSXUSD", displayName: "US 100" },
+ *         { symbol: "FOREXCOM:DJI", displayName: "Dow 30" },
+ *       ],
+ *     },
+ *   ]}
+ * />
+ * ```
+ *
+ * @example
+ * Custom plot colors with dark theme:
+ * ```tsx
+ * <MarketOverview
+ *   tabs={tabs}
+ *   colorTheme="dark"
+ *   dateRange="3M"
+ *   lineUpColor="rgba(0, 200, 81, 1)"
+ *   lineDownColor="rgba(255, 68, 68, 1)"
+ *   topUpColor="rgba(0, 200, 81, 0.12)"
+ *   topDownColor="rgba(255, 68, 68, 0.12)"
+ *   showSymbolLogo={false}
+ * />
+ * ```
+ */
+export const MarketOverview = (props: MarketOverviewProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      dateRange: "12M" as WatchlistDateRange,
+
+      showChart: true,
+      showSymbolLogo: true,
+      showFloatingTooltip: false,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="MarketOverview"
+      scriptSrc="embed-widget-market-overview.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        dateRange: _props.dateRange,
+        showChart: _props.showChart,
+        showSymbolLogo: _props.showSymbolLogo,
+        showFloatingTooltip: _props.showFloatingTooltip,
+        isTransparent: _props.isTransparent,
+        plotLineColorGrowing: _props.lineUpColor,
+        plotLineColorFalling: _props.lineDownColor,
+        belowLineFillColorGrowing: _props.topUpColor,
+        belowLineFillColorFalling: _props.topDownColor,
+        belowLineFillColorGrowingBottom: _props.bottomUpColor,
+        belowLineFillColorFallingBottom: _props.bottomDownColor,
+        gridLineColor: _props.gridLineColor,
+        scaleFontColor: _props.scaleFontColor,
+        symbolActiveColor: _props.symbolActiveColor,
+        tabs: _props.tabs.map((tab) => ({
+          title: tab.title,
+          originalTitle: tab.title,
+          symbols: tab.symbols.map((item) => ({ s: item.symbol, d: item.displayName })),
+        })),
+      })}
+    />
+  );
+};
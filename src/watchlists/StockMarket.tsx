@@ -0,0 +1,268 @@
+import { type JSX, mergeProps, splitProps } from "solid-js";
+
+import { type ColorThemeSource, createColorTheme } from "../core/createColorTheme";
+import { toConfigSize } from "../core/createTradingViewWidget";
+import { pickTradingViewDefaults } from "../core/TradingViewProvider";
+import {
+  SIZED_WIDGET_PROPS,
+  type SizedWidgetProps,
+  TradingViewWidget,
+} from "../core/TradingViewWidget";
+import type { ColorTheme, Locale, Responsive, Size, WatchlistDateRange } from "../types";
+
+/**
+ * Exchanges supported by the TradingView Stock Market hotlists widget.
+ *
+ * Each exchange provides its own gainers, losers and most active lists.
+ *
+ * **Americas:**
+ * - `US`: All US exchanges combined
+ * - `NASDAQ`: NASDAQ Stock Market
+ * - `NYSE`: New York Stock Exchange
+ * - `AMEX`: NYSE American
+ * - `OTC`: US over-the-counter markets
+ * - `TSX`: Toronto Stock Exchange
+ * - `TSXV`: TSX Venture Exchange
+ * - `BMFBOVESPA`: B3 (Brasil Bolsa Balcão)
+ * - `BMV`: Mexican Stock Exchange
+ * - `BYMA`: Buenos Aires Stock Exchange
+ *
+ * **Europe:**
+ * - `LSE`: London Stock Exchange
+ * - `XETR`: Deutsche Börse XETRA
+ * - `FWB`: Frankfurt Stock Exchange
+ * - `EURONEXT`: Euronext (Paris, Amsterdam, Brussels, Lisbon)
+ * - `BME`: Madrid Stock Exchange
+ * - `MIL`: Borsa Italiana
+ * - `SIX`: SIX Swiss Exchange
+ * - `OMXSTO`: NASDAQ Stockholm
+ * - `MOEX`: Moscow Exchange
+ *
+ * **Asia-Pacific & Middle East:**
+ * - `ASX`: Australian Securities Exchange
+ * - `NSE`: National Stock Exchange of India
+ * - `BSE`: Bombay Stock Exchange
+ * - `TSE`: Tokyo Stock Exchange
+ * - `HKEX`: Hong Kong Stock Exchange
+ * - `SSE`: Shanghai Stock Exchange
+ * - `SZSE`: Shenzhen Stock Exchange
+ * - `KRX`: Korea Exchange
+ * - `TWSE`: Taiwan Stock Exchange
+ * - `SGX`: Singapore Exchange
+ * - `IDX`: Indonesia Stock Exchange
+ * - `SET`: Stock Exchange of Thailand
+ * - `HOSE`: Ho Chi Minh Stock Exchange
+ * - `TASE`: Tel Aviv Stock Exchange
+ * - `TADAWUL`: Saudi Stock Exchange
+ * - `BIST`: Borsa Istanbul
+ *
+ * **Africa:**
+ * - `JSE`: Johannesburg Stock Exchange
+ * - `EGX`: Egyptian Exchange
+ *
+ * @example
+ * ```tsx
+ * <StockMarket exchange="US" /> // All US stocks
+ * <StockMarket exchange="LSE" /> // London Stock Exchange
+ * <StockMarket exchange="TSE" /> // Tokyo Stock Exchange
+ * ```
+ */
+export type StockMarketExchange =
+  // Americas
+  | "US"
+  | "NASDAQ"
+  | "NYSE"
+  | "AMEX"
+  | "OTC"
+  | "TSX"
+  | "TSXV"
+  | "BMFBOVESPA"
+  | "BMV"
+  | "BYMA"
+
+  // Europe
+  | "LSE"
+  | "XETR"
+  | "FWB"
+  | "EURONEXT"
+  | "BME"
+  | "MIL"
+  | "SIX"
+  | "OMXSTO"
+  | "MOEX"
+
+  // Asia-Pacific & Middle East
+  | "ASX"
+  | "NSE"
+  | "BSE"
+  | "TSE"
+  | "HKEX"
+  | "SSE"
+  | "SZSE"
+  | "KRX"
+  | "TWSE"
+  | "SGX"
+  | "IDX"
+  | "SET"
+  | "HOSE"
+  | "TASE"
+  | "TADAWUL"
+  | "BIST"
+
+  // Africa
+  | "JSE"
+  | "EGX";
+
+/**
+ * Props for the StockMarket component.
+ */
+export type StockMarketProps = SizedWidgetProps & {
+  /**
+   * The exchange whose hotlists (gainers, losers, most active) are displayed.
+   * @default "US"
+   */
+  readonly exchange?: StockMarketExchange;
+
+  /** Widget width in pixels, "full" for container width, or "fit" to track the parent width */
+  readonly width?: Size;
+  /**
+   * Widget height in pixels, "full" for container height, or "fit" to track the parent height.
+   * Accepts a responsive value, e.g. `{ base: 300, md: 500 }`.
+   */
+  readonly height?: Responsive<Size>;
+  /** Display language and regional formatting */
+  readonly locale?: Locale;
+  /** Widget color theme (light/dark) */
+  readonly colorTheme?: ColorTheme;
+
+  /**
+   * Where to read the host application's theme from when `colorTheme` is "auto".
+   */
+  readonly themeSource?: ColorThemeSource;
+  /** Time period displayed in the chart */
+  readonly dateRange?: WatchlistDateRange;
+
+  // UI Elements
+  /** Show/hide the chart above the hotlists */
+  readonly showChart?: boolean;
+  /** Show/hide symbol logos in the hotlists */
+  readonly showSymbolLogo?: boolean;
+  /** Show/hide the floating tooltip when hovering the chart */
+  readonly showFloatingTooltip?: boolean;
+  /** Transparent widget background */
+  readonly isTransparent?: boolean;
+
+  // Plot Colors
+  /** Plot line color when the price is rising */
+  readonly lineUpColor?: string;
+  /** Plot line color when the price is falling */
+  readonly lineDownColor?: string;
+  /** Area fill top gradient color when the price is rising */
+  readonly topUpColor?: string;
+  /** Area fill top gradient color when the price is falling */
+  readonly topDownColor?: string;
+  /** Area fill bottom gradient color when the price is rising */
+  readonly bottomUpColor?: string;
+  /** Area fill bottom gradient color when the price is falling */
+  readonly bottomDownColor?: string;
+
+  // Grid and Labels
+  /** Chart grid line color */
+  readonly gridLineColor?: string;
+  /** Price scale label color */
+  readonly scaleFontColor?: string;
+  /** Highlight color for the selected symbol in the hotlists */
+  readonly symbolActiveColor?: string;
+};
+
+/**
+ * TradingView StockMarket widget for exchange hotlists.
+ *
+ * Displays the top gainers, top losers and most active stocks for a chosen exchange,
+ * with a chart for the selected stock. A quick way to see what is moving the market
+ * on any of the major exchanges worldwide.
+ *
+ * @see https://www.tradingview.com/widget-docs/widgets/watchlists/stock-market/
+ *
+ * @example
+ * Basic usage:
+ * ```tsx
+ * <StockMarket exchange="US" />
+ * ```
+ *
+ * @example
+ * London hotlists with custom plot colors:
+ * ```tsx
+ * <StockMarket
+ *   exchange="LSE"
+ *   dateRange="1D"
+ *   colorTheme="dark"
+ *   lineUpColor="rgba(0, 200, 81, 1)"
+ *   lineDownColor="rgba(255, 68, 68, 1)"
+ *   gridLineColor="rgba(255, 255, 255, 0.06)"
+ * />
+ * ```
+ *
+ * @example
+ * Compact list without a chart:
+ * ```tsx
+ * <StockMarket exchange="NASDAQ" showChart={false} width={400} height={500} />
+ * ```
+ */
+export const StockMarket = (props: StockMarketProps): JSX.Element => {
+  const [base, local] = splitProps(props, SIZED_WIDGET_PROPS);
+
+  const _props = mergeProps(
+    {
+      width: "full" as const,
+      height: "full" as const,
+      locale: "en" as Locale,
+      colorTheme: "light" as ColorTheme,
+      exchange: "US" as StockMarketExchange,
+      dateRange: "12M" as WatchlistDateRange,
+
+      showChart: true,
+      showSymbolLogo: true,
+      showFloatingTooltip: false,
+      isTransparent: false,
+    },
+    pickTradingViewDefaults(["colorTheme", "themeSource", "locale", "isTransparent"]),
+    local,
+  );
+
+  const colorTheme = createColorTheme(
+    () => _props.colorTheme,
+    () => _props.themeSource,
+  );
+
+  return (
+    <TradingViewWidget
+      {...base}
+      widgetName="StockMarket"
+      scriptSrc="embed-widget-hotlists.js"
+      width={_props.width}
+      height={_props.height}
+      config={(resolve) => ({
+        width: toConfigSize(_props.width),
+        height: toConfigSize(resolve(_props.height)),
+        locale: _props.locale,
+        colorTheme: colorTheme(),
+        exchange: _props.exchange,
+        dateRange: _props.dateRange,
+        showChart: _props.showChart,
+        showSymbolLogo: _props.showSymbolLogo,
+        showFloatingTooltip: _props.showFloatingTooltip,
+        isTransparent: _props.isTransparent,
+        plotLineColorGrowing: _props.lineUpColor,
+        plotLineColorFalling: _props.lineDownColor,
+        belowLineFillColorGrowing: _props.topUpColor,
+        belowLineFillColorFalling: _props.topDownColor,
+        belowLineFillColorGrowingBottom: _props.bottomUpColor,
+        belowLineFillColorFallingBottom: _props.bottomDownColor,
+        gridLineColor: _props.gridLineColor,
+        scaleFontColor: _props.scaleFontColor,
+        symbolActiveColor: _props.symbolActiveColor,
+      })}
+    />
+  );
+};
@@ -9,7 +9,7 @@ const generateSolidPresetOptions = (watching: boolean): preset.PresetOptions =>
       // entries with '.tsx' extension will have `solid` export condition generated
       entry: "src/index.tsx",
       dev_entry: false,
-      server_entry: false,
+      server_entry: true,
     },
   ],
   drop_console: !watching, // remove all `console.*` calls and `debugger` statements in prod builds